@@ -0,0 +1,115 @@
+import React from 'react';
+import { FramingMode, FramingOptions } from '../types';
+import { parseDelimiter } from '../utils/framing';
+
+interface FramingPanelProps {
+  options: FramingOptions;
+  setOptions: React.Dispatch<React.SetStateAction<FramingOptions>>;
+}
+
+const framingModes: { value: FramingMode, label: string }[] = [
+  { value: FramingMode.None, label: '不分帧（按读取块）' },
+  { value: FramingMode.Idle, label: '空闲超时' },
+  { value: FramingMode.Delimiter, label: '分隔符' },
+  { value: FramingMode.Fixed, label: '固定长度' },
+  { value: FramingMode.LengthPrefix, label: '长度字段' }
+];
+
+const FramingPanel: React.FC<FramingPanelProps> = ({ options, setOptions }) => {
+  const update = (updates: Partial<FramingOptions>) => {
+    setOptions(prev => ({ ...prev, ...updates }));
+  };
+
+  const numberInput = (value: number, onChange: (value: number) => void, min = 0) => (
+    <input
+      type="number" min={min} value={value}
+      onChange={(e) => onChange(Math.max(min, Number(e.target.value)))}
+      className="w-16 px-1 border rounded text-center"
+    />
+  );
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center text-xs text-gray-700" title="把接收数据切分为完整的帧，每帧显示为一条记录，时间戳为首字节到达时间">
+        <span className="mr-2">接收分帧</span>
+        <select
+          value={options.mode}
+          onChange={(e) => update({ mode: e.target.value as FramingMode })}
+          className="flex-1 bg-white border border-gray-300 rounded py-1 px-2 text-xs outline-none focus:ring-1 focus:ring-blue-500"
+        >
+          {framingModes.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+        </select>
+      </label>
+
+      {options.mode === FramingMode.Idle && (
+        <div className="flex items-center justify-between text-xs text-gray-600 pl-5">
+          <span>空闲时间 (ms)</span>
+          {numberInput(options.idleMs, idleMs => update({ idleMs }), 1)}
+        </div>
+      )}
+
+      {options.mode === FramingMode.Delimiter && (
+        <div className="flex items-center justify-between text-xs text-gray-600 pl-5">
+          <span>分隔符 (HEX)</span>
+          <input
+            type="text" value={options.delimiter}
+            onChange={(e) => update({ delimiter: e.target.value })}
+            placeholder="0D 0A"
+            className={`w-24 px-1 border rounded font-mono ${parseDelimiter(options.delimiter) ? '' : 'border-red-400'}`}
+          />
+        </div>
+      )}
+
+      {options.mode === FramingMode.Fixed && (
+        <div className="flex items-center justify-between text-xs text-gray-600 pl-5">
+          <span>帧长 (字节)</span>
+          {numberInput(options.frameLength, frameLength => update({ frameLength }), 1)}
+        </div>
+      )}
+
+      {options.mode === FramingMode.LengthPrefix && (
+        <div className="space-y-2 pl-5">
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>长度字段偏移</span>
+            {numberInput(options.lengthOffset, lengthOffset => update({ lengthOffset }))}
+          </div>
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>长度字段宽度</span>
+            <select
+              value={options.lengthWidth}
+              onChange={(e) => update({ lengthWidth: Number(e.target.value) as FramingOptions['lengthWidth'] })}
+              className="w-16 bg-white border border-gray-300 rounded py-0.5 px-1 text-xs outline-none"
+            >
+              <option value={1}>1</option>
+              <option value={2}>2</option>
+              <option value={4}>4</option>
+            </select>
+          </div>
+          {options.lengthWidth > 1 && (
+            <div className="flex items-center justify-between text-xs text-gray-600">
+              <span>字节序</span>
+              <select
+                value={options.lengthBigEndian ? 'be' : 'le'}
+                onChange={(e) => update({ lengthBigEndian: e.target.value === 'be' })}
+                className="w-16 bg-white border border-gray-300 rounded py-0.5 px-1 text-xs outline-none"
+              >
+                <option value="be">大端</option>
+                <option value="le">小端</option>
+              </select>
+            </div>
+          )}
+          <div className="flex items-center justify-between text-xs text-gray-600" title="长度字段之后的字节数 = 长度值 + 调整量，例如长度不含 2 字节校验和时填 2">
+            <span>长度调整量</span>
+            <input
+              type="number" value={options.lengthAdjust}
+              onChange={(e) => update({ lengthAdjust: Number(e.target.value) })}
+              className="w-16 px-1 border rounded text-center"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FramingPanel;
@@ -0,0 +1,126 @@
+import React from 'react';
+import { BluetoothConfig, GattCharacteristicProperty, GattServiceInfo } from '../types';
+import { BLUETOOTH_PRESETS, isSameUUID, shortUUID } from '../transports';
+
+interface GattBrowserPanelProps {
+  config: BluetoothConfig;
+  onSelect: (updates: Partial<BluetoothConfig>) => void;
+  deviceName: string | null;
+  services: GattServiceInfo[];
+  isDiscovering: boolean;
+  onDiscover: () => void;
+  onForget: () => void;
+  disabled: boolean;
+}
+
+const propertyLabels: Record<GattCharacteristicProperty, string> = {
+  read: 'Read',
+  write: 'Write',
+  writeWithoutResponse: 'WriteNR',
+  notify: 'Notify',
+  indicate: 'Indicate'
+};
+
+const GattBrowserPanel: React.FC<GattBrowserPanelProps> = ({ config, onSelect, deviceName, services, isDiscovering, onDiscover, onForget, disabled }) => {
+  const presetIndex = BLUETOOTH_PRESETS.findIndex(p =>
+    isSameUUID(p.serviceUUID, config.serviceUUID) &&
+    isSameUUID(p.txCharacteristicUUID, config.txCharacteristicUUID) &&
+    isSameUUID(p.rxCharacteristicUUID, config.rxCharacteristicUUID)
+  );
+
+  const roleClass = (active: boolean) =>
+    `px-1.5 py-0.5 text-[10px] font-bold rounded border transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+      active ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+    }`;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-600 mb-1">模块预设</label>
+        <select
+          value={presetIndex}
+          onChange={(e) => {
+            const preset = BLUETOOTH_PRESETS[Number(e.target.value)];
+            if (preset) {
+              onSelect({ serviceUUID: preset.serviceUUID, txCharacteristicUUID: preset.txCharacteristicUUID, rxCharacteristicUUID: preset.rxCharacteristicUUID });
+            }
+          }}
+          disabled={disabled}
+          className="w-full bg-gray-50 border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 outline-none"
+        >
+          <option value={-1}>自定义</option>
+          {BLUETOOTH_PRESETS.map((preset, index) => <option key={preset.name} value={index}>{preset.name}</option>)}
+        </select>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className="text-sm font-medium text-gray-600">服务发现</label>
+          {deviceName && (
+            <button onClick={onForget} disabled={disabled} className="text-xs text-gray-500 hover:text-red-600 disabled:opacity-30">
+              <i className="fas fa-times mr-1"></i>清除
+            </button>
+          )}
+        </div>
+        <button
+          onClick={onDiscover}
+          disabled={disabled || isDiscovering}
+          className="w-full py-1.5 text-xs font-bold rounded border border-blue-300 text-blue-600 bg-white hover:bg-blue-50 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <i className={`fas ${isDiscovering ? 'fa-spinner fa-spin' : 'fa-search'} mr-1`}></i>
+          {isDiscovering ? '正在发现服务...' : deviceName ? '重新扫描' : '扫描设备并列出服务'}
+        </button>
+        <p className="text-xs text-gray-500 mt-1">浏览器只允许访问预设服务及下方填写的服务</p>
+
+        {deviceName && (
+          <div className="mt-2 p-2 bg-gray-50 rounded-md border border-gray-200 space-y-2">
+            <div className="text-xs text-gray-700 font-medium truncate">
+              <i className="fab fa-bluetooth-b mr-1 text-blue-500"></i>{deviceName}
+            </div>
+            {services.map(service => (
+              <div key={service.uuid} className="space-y-1">
+                <div className="text-[11px] font-mono text-gray-500 break-all">{shortUUID(service.uuid)}</div>
+                {service.characteristics.length === 0 && <div className="pl-2 text-[11px] text-gray-400">无可访问的特征</div>}
+                {service.characteristics.map(characteristic => {
+                  const canWrite = characteristic.properties.includes('write') || characteristic.properties.includes('writeWithoutResponse');
+                  const canNotify = characteristic.properties.includes('notify') || characteristic.properties.includes('indicate');
+                  const inService = isSameUUID(service.uuid, config.serviceUUID);
+                  return (
+                    <div key={characteristic.uuid} className="pl-2 border-l-2 border-gray-200">
+                      <div className="flex items-center gap-1">
+                        <span className="flex-1 min-w-0 text-[11px] font-mono text-gray-700 break-all">{shortUUID(characteristic.uuid)}</span>
+                        <button
+                          onClick={() => onSelect({ serviceUUID: shortUUID(service.uuid), txCharacteristicUUID: shortUUID(characteristic.uuid) })}
+                          disabled={disabled || !canWrite}
+                          className={roleClass(inService && isSameUUID(characteristic.uuid, config.txCharacteristicUUID))}
+                          title="用作发送特征"
+                        >
+                          TX
+                        </button>
+                        <button
+                          onClick={() => onSelect({ serviceUUID: shortUUID(service.uuid), rxCharacteristicUUID: shortUUID(characteristic.uuid) })}
+                          disabled={disabled || !canNotify}
+                          className={roleClass(inService && isSameUUID(characteristic.uuid, config.rxCharacteristicUUID))}
+                          title="用作接收特征"
+                        >
+                          RX
+                        </button>
+                      </div>
+                      <div className="flex flex-wrap gap-1 mt-0.5">
+                        {characteristic.properties.map(p => (
+                          <span key={p} className="px-1 text-[9px] rounded bg-gray-200 text-gray-600">{propertyLabels[p]}</span>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GattBrowserPanel;
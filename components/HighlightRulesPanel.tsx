@@ -0,0 +1,197 @@
+import React, { useRef } from 'react';
+import { HighlightRule, SearchMode } from '../types';
+import { ruleError } from '../utils/highlight';
+
+interface HighlightRulesPanelProps {
+  rules: HighlightRule[];
+  onUpdate: (rules: HighlightRule[]) => void;
+  onClose: () => void;
+}
+
+const ruleModes: { value: SearchMode, label: string }[] = [
+  { value: SearchMode.Regex, label: '正则' },
+  { value: SearchMode.Hex, label: 'HEX' },
+  { value: SearchMode.Text, label: '文本' }
+];
+
+// 颜色未设置时显示“无”，点击后设为默认颜色
+const ColorInput: React.FC<{ label: string, value?: string, fallback: string, onChange: (value?: string) => void }> = ({ label, value, fallback, onChange }) => (
+  <span className="flex items-center">
+    <span className="mr-1 text-gray-500">{label}</span>
+    {value ? (
+      <>
+        <input type="color" value={value} onChange={(e) => onChange(e.target.value)} className="w-6 h-5 p-0 border rounded cursor-pointer" />
+        <button onClick={() => onChange(undefined)} className="ml-0.5 text-gray-300 hover:text-gray-500" title="清除颜色">
+          <i className="fas fa-times text-[10px]"></i>
+        </button>
+      </>
+    ) : (
+      <button onClick={() => onChange(fallback)} className="w-6 h-5 border border-dashed border-gray-300 rounded text-[9px] text-gray-400 hover:border-gray-400">无</button>
+    )}
+  </span>
+);
+
+// 接收数据高亮规则编辑器，靠前的规则优先
+const HighlightRulesPanel: React.FC<HighlightRulesPanelProps> = ({ rules, onUpdate, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const addRule = () => {
+    const rule: HighlightRule = {
+      id: Math.random().toString(36).substr(2, 9),
+      enabled: true,
+      mode: SearchMode.Regex,
+      pattern: '',
+      caseSensitive: true,
+      fg: '#dc2626',
+      bold: false,
+      dim: false,
+      wholeLine: false
+    };
+    onUpdate([...rules, rule]);
+  };
+
+  const removeRule = (id: string) => {
+    onUpdate(rules.filter(rule => rule.id !== id));
+  };
+
+  const updateRule = (id: string, updates: Partial<HighlightRule>) => {
+    onUpdate(rules.map(rule => rule.id === id ? { ...rule, ...updates } : rule));
+  };
+
+  const moveRule = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    onUpdate(next);
+  };
+
+  const exportData = () => {
+    const dataStr = JSON.stringify(rules, null, 2);
+    const blob = new Blob([dataStr], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `serial_highlight_rules_${new Date().getTime()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const json = JSON.parse(event.target?.result as string);
+        if (Array.isArray(json)) {
+          onUpdate(json);
+        }
+      } catch (err) {
+        alert('无效的 JSON 文件');
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="absolute right-3 top-11 z-30 w-[34rem] max-h-[70%] flex flex-col bg-white border border-gray-200 rounded-lg shadow-lg text-xs font-sans">
+      <div className="px-3 py-2 border-b bg-gray-50/50 flex items-center justify-between">
+        <span className="font-bold text-gray-700">
+          <i className="fas fa-highlighter mr-2 text-amber-500"></i>
+          高亮规则
+          <span className="ml-2 font-normal text-[10px] text-gray-400">作用于接收数据，靠前的规则优先</span>
+        </span>
+        <div className="flex space-x-1">
+          <button onClick={() => fileInputRef.current?.click()} className="p-1.5 text-gray-500 hover:text-blue-600 rounded" title="导入">
+            <i className="fas fa-file-import"></i>
+          </button>
+          <button onClick={exportData} className="p-1.5 text-gray-500 hover:text-blue-600 rounded" title="导出">
+            <i className="fas fa-file-export"></i>
+          </button>
+          <button onClick={onClose} className="p-1.5 text-gray-500 hover:text-gray-700 rounded" title="关闭">
+            <i className="fas fa-times"></i>
+          </button>
+          <input type="file" ref={fileInputRef} onChange={handleImport} className="hidden" accept=".json" />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-2 custom-scrollbar">
+        {rules.length === 0 && (
+          <div className="text-center py-6 text-gray-400">暂无高亮规则</div>
+        )}
+        {rules.map((rule, index) => {
+          const error = rule.pattern ? ruleError(rule) : null;
+          return (
+            <div key={rule.id} className={`p-2 rounded border ${rule.enabled ? 'bg-gray-50 border-gray-200' : 'bg-white border-dashed border-gray-200 opacity-60'}`}>
+              <div className="flex items-center space-x-1">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                  className="rounded text-blue-600 focus:ring-0"
+                  title="启用"
+                />
+                <select
+                  value={rule.mode}
+                  onChange={(e) => updateRule(rule.id, { mode: e.target.value as SearchMode })}
+                  className="bg-white border border-gray-300 rounded py-0.5 px-1 outline-none"
+                >
+                  {ruleModes.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                </select>
+                <input
+                  value={rule.pattern}
+                  onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                  placeholder={rule.mode === SearchMode.Hex ? 'AA 55' : 'ERROR|FAIL'}
+                  className={`flex-1 px-2 py-0.5 border rounded font-mono outline-none ${error ? 'border-red-400' : 'border-gray-300 focus:border-blue-300'}`}
+                  title={error || undefined}
+                />
+                <button onClick={() => moveRule(index, -1)} disabled={index === 0} className="px-1 text-gray-400 hover:text-gray-600 disabled:opacity-30" title="上移">
+                  <i className="fas fa-arrow-up"></i>
+                </button>
+                <button onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1} className="px-1 text-gray-400 hover:text-gray-600 disabled:opacity-30" title="下移">
+                  <i className="fas fa-arrow-down"></i>
+                </button>
+                <button onClick={() => removeRule(rule.id)} className="px-1 text-gray-300 hover:text-red-500" title="删除">
+                  <i className="fas fa-times-circle"></i>
+                </button>
+              </div>
+              <div className="flex items-center space-x-3 mt-1.5 pl-5">
+                <ColorInput label="文字" value={rule.fg} fallback="#dc2626" onChange={(fg) => updateRule(rule.id, { fg })} />
+                <ColorInput label="背景" value={rule.bg} fallback="#fef3c7" onChange={(bg) => updateRule(rule.id, { bg })} />
+                <label className="flex items-center cursor-pointer">
+                  <input type="checkbox" checked={rule.bold} onChange={(e) => updateRule(rule.id, { bold: e.target.checked })} className="mr-1 rounded text-blue-600 focus:ring-0" />
+                  <span className="font-bold">粗体</span>
+                </label>
+                <label className="flex items-center cursor-pointer">
+                  <input type="checkbox" checked={rule.dim} onChange={(e) => updateRule(rule.id, { dim: e.target.checked })} className="mr-1 rounded text-blue-600 focus:ring-0" />
+                  <span className="opacity-60">淡化</span>
+                </label>
+                <label className="flex items-center cursor-pointer">
+                  <input type="checkbox" checked={rule.wholeLine} onChange={(e) => updateRule(rule.id, { wholeLine: e.target.checked })} className="mr-1 rounded text-blue-600 focus:ring-0" />
+                  <span>整行</span>
+                </label>
+                {rule.mode !== SearchMode.Hex && (
+                  <label className="flex items-center cursor-pointer" title="区分大小写">
+                    <input type="checkbox" checked={rule.caseSensitive} onChange={(e) => updateRule(rule.id, { caseSensitive: e.target.checked })} className="mr-1 rounded text-blue-600 focus:ring-0" />
+                    <span className="font-mono">Aa</span>
+                  </label>
+                )}
+              </div>
+              {error && <div className="mt-1 pl-5 text-[10px] text-red-500">{error}</div>}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="p-2 border-t">
+        <button onClick={addRule} className="w-full py-1.5 border border-dashed border-gray-300 rounded text-gray-500 hover:border-blue-300 hover:text-blue-600">
+          <i className="fas fa-plus mr-1"></i>添加规则
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default HighlightRulesPanel;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { InteractiveOptions, LineEnding } from '../types';
+
+interface InteractivePanelProps {
+  options: InteractiveOptions;
+  setOptions: React.Dispatch<React.SetStateAction<InteractiveOptions>>;
+}
+
+const InteractivePanel: React.FC<InteractivePanelProps> = ({ options, setOptions }) => {
+  const update = (updates: Partial<InteractiveOptions>) => {
+    setOptions(prev => ({ ...prev, ...updates }));
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center text-xs text-gray-700 cursor-pointer" title="终端获得焦点后，每次按键立即发送到设备">
+        <input
+          type="checkbox"
+          checked={options.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="mr-2 rounded text-blue-600 focus:ring-0"
+        />
+        <span>交互模式（按键直接发送）</span>
+      </label>
+
+      {options.enabled && (
+        <div className="space-y-2 pl-5">
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>回车发送</span>
+            <select
+              value={options.enter}
+              onChange={(e) => update({ enter: e.target.value as LineEnding })}
+              className="w-20 bg-white border border-gray-300 rounded py-0.5 px-1 text-xs outline-none"
+            >
+              <option value={LineEnding.CR}>CR</option>
+              <option value={LineEnding.LF}>LF</option>
+              <option value={LineEnding.CRLF}>CRLF</option>
+            </select>
+          </div>
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>退格发送</span>
+            <select
+              value={options.backspace}
+              onChange={(e) => update({ backspace: e.target.value as InteractiveOptions['backspace'] })}
+              className="w-20 bg-white border border-gray-300 rounded py-0.5 px-1 text-xs outline-none"
+            >
+              <option value="del">DEL (7F)</option>
+              <option value="bs">BS (08)</option>
+            </select>
+          </div>
+          <label className="flex items-center text-xs text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.localEcho}
+              onChange={(e) => update({ localEcho: e.target.checked })}
+              className="mr-2 rounded text-blue-600 focus:ring-0"
+            />
+            <span>本地回显</span>
+          </label>
+          <div className="flex items-center justify-between text-xs text-gray-600" title="粘贴内容分块发送，0 表示不分块">
+            <span>粘贴分块</span>
+            <div className="flex items-center">
+              <input
+                type="number" min={0} value={options.pasteChunkSize}
+                onChange={(e) => update({ pasteChunkSize: Math.max(0, Number(e.target.value)) })}
+                className="w-12 px-1 border rounded text-center"
+              />
+              <span className="mx-1">字节 /</span>
+              <input
+                type="number" min={0} value={options.pasteDelayMs}
+                onChange={(e) => update({ pasteDelayMs: Math.max(0, Number(e.target.value)) })}
+                className="w-12 px-1 border rounded text-center"
+              />
+              <span className="ml-1">ms</span>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InteractivePanel;
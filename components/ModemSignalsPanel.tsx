@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { SerialInputSignals, SerialOutputSignals } from '../types';
+
+interface ModemSignalsPanelProps {
+  enabled: boolean; // 已连接且链路支持控制信号
+  outputSignals: Required<Omit<SerialOutputSignals, 'break'>>;
+  inputSignals: SerialInputSignals | null;
+  onOutputSignalChange: (name: 'dataTerminalReady' | 'requestToSend', value: boolean) => void;
+  onSendBreak: (durationMs: number) => void;
+}
+
+const inputIndicators: { key: keyof SerialInputSignals, label: string }[] = [
+  { key: 'clearToSend', label: 'CTS' },
+  { key: 'dataSetReady', label: 'DSR' },
+  { key: 'dataCarrierDetect', label: 'DCD' },
+  { key: 'ringIndicator', label: 'RI' }
+];
+
+const ModemSignalsPanel: React.FC<ModemSignalsPanelProps> = ({ enabled, outputSignals, inputSignals, onOutputSignalChange, onSendBreak }) => {
+  const [breakDuration, setBreakDuration] = useState(250);
+
+  const toggleClass = (active: boolean) =>
+    `flex-1 py-1 text-[11px] font-bold rounded border transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+      active ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+    }`;
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-600 mb-1">控制信号</label>
+      <div className="space-y-2 p-3 bg-gray-50 rounded-md border border-gray-200">
+        <div className="flex gap-2">
+          <button
+            onClick={() => onOutputSignalChange('dataTerminalReady', !outputSignals.dataTerminalReady)}
+            disabled={!enabled}
+            className={toggleClass(enabled && outputSignals.dataTerminalReady)}
+          >
+            DTR
+          </button>
+          <button
+            onClick={() => onOutputSignalChange('requestToSend', !outputSignals.requestToSend)}
+            disabled={!enabled}
+            className={toggleClass(enabled && outputSignals.requestToSend)}
+          >
+            RTS
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 text-xs text-gray-600">
+          <button
+            onClick={() => onSendBreak(breakDuration)}
+            disabled={!enabled}
+            className="px-2 py-1 text-[11px] font-bold rounded border bg-white text-gray-600 border-gray-300 hover:bg-gray-50 disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            BREAK
+          </button>
+          <input
+            type="number" min={1} value={breakDuration}
+            onChange={(e) => setBreakDuration(Math.max(1, Number(e.target.value)))}
+            className="w-16 px-1 border rounded text-center"
+          />
+          <span>ms</span>
+        </div>
+
+        <div className="flex justify-between">
+          {inputIndicators.map(({ key, label }) => {
+            const active = !!inputSignals && inputSignals[key];
+            return (
+              <div key={key} className="flex items-center text-[11px] text-gray-600">
+                <i className={`fas fa-circle text-[8px] mr-1 ${active ? 'text-green-500' : 'text-gray-300'}`}></i>
+                {label}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModemSignalsPanel;
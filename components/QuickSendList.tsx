@@ -1,16 +1,24 @@
 
 import React, { useRef } from 'react';
-import { QuickSendItem, DisplayMode } from '../types';
+import { QuickSendItem, DisplayMode, LineEnding, TextSendOptions } from '../types';
 
 interface QuickSendListProps {
   items: QuickSendItem[];
   onSend: (content: string, mode: DisplayMode) => void;
   onUpdate: (items: QuickSendItem[]) => void;
+  textOptions: TextSendOptions; // 与发送区共用，仅用于提示
   isConnected: boolean;
   isReconnecting?: boolean;
 }
 
-const QuickSendList: React.FC<QuickSendListProps> = ({ items, onSend, onUpdate, isConnected, isReconnecting = false }) => {
+const lineEndingLabels: Record<LineEnding, string> = {
+  [LineEnding.None]: '无',
+  [LineEnding.CR]: 'CR',
+  [LineEnding.LF]: 'LF',
+  [LineEnding.CRLF]: 'CRLF'
+};
+
+const QuickSendList: React.FC<QuickSendListProps> = ({ items, onSend, onUpdate, textOptions, isConnected, isReconnecting = false }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const addItem = () => {
@@ -66,6 +74,9 @@ const QuickSendList: React.FC<QuickSendListProps> = ({ items, onSend, onUpdate,
         <h2 className="text-sm font-bold text-gray-700 flex items-center">
           <i className="fas fa-bolt mr-2 text-yellow-500"></i>
           快捷发送
+          <span className="ml-2 text-[10px] font-normal text-gray-400" title="文本指令使用发送区的结尾与转义设置">
+            结尾: {lineEndingLabels[textOptions.lineEnding]}{textOptions.parseEscapes ? ' · 转义' : ''}
+          </span>
         </h2>
         <div className="flex space-x-1">
           <button onClick={() => fileInputRef.current?.click()} className="p-1.5 text-xs text-gray-500 hover:text-blue-600 hover:bg-white rounded transition-colors" title="导入">
@@ -0,0 +1,181 @@
+import React, { useRef, useState } from 'react';
+import { UserScript } from '../types';
+
+interface ScriptPanelProps {
+  scripts: UserScript[];
+  onUpdate: (scripts: UserScript[]) => void;
+  runningId: string | null;
+  onRun: (script: UserScript) => void;
+  onStop: () => void;
+  isConnected: boolean;
+}
+
+const scriptTemplate = `// 查询设备 ID 并写入配置
+await send('AT+ID?\\r\\n');
+const [, id] = await expect(/ID=(\\w+)\\r?\\n/, 2000);
+log('设备 ID', id);
+await send(\`AT+CFG=\${id}\\r\\n\`);
+await expect('OK', 1000);
+`;
+
+const apiHelp = [
+  'send(text | bytes)  原样发送，不追加结尾',
+  'await expect(/正则/ | 文本, 超时ms)  返回匹配结果',
+  'await sleep(ms)',
+  'log(...values)',
+  'await setSignals({ dataTerminalReady, requestToSend, break })'
+].join('\n');
+
+// 自动化脚本编辑与运行，脚本在独立的 Worker 中执行
+const ScriptPanel: React.FC<ScriptPanelProps> = ({ scripts, onUpdate, runningId, onRun, onStop, isConnected }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(() => scripts[0]?.id ?? null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = scripts.find(script => script.id === selectedId) || scripts[0];
+  const isRunning = runningId !== null;
+
+  const addScript = () => {
+    let index = scripts.length + 1;
+    while (scripts.some(s => s.name === `脚本 ${index}`)) index++;
+    const script: UserScript = {
+      id: Math.random().toString(36).substr(2, 9),
+      name: `脚本 ${index}`,
+      code: scriptTemplate
+    };
+    onUpdate([...scripts, script]);
+    setSelectedId(script.id);
+  };
+
+  const removeScript = (id: string) => {
+    onUpdate(scripts.filter(script => script.id !== id));
+  };
+
+  const updateScript = (id: string, updates: Partial<UserScript>) => {
+    onUpdate(scripts.map(script => script.id === id ? { ...script, ...updates } : script));
+  };
+
+  const exportData = () => {
+    const dataStr = JSON.stringify(scripts, null, 2);
+    const blob = new Blob([dataStr], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `serial_scripts_${new Date().getTime()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const json = JSON.parse(event.target?.result as string);
+        if (Array.isArray(json)) {
+          onUpdate(json);
+        }
+      } catch (err) {
+        alert('无效的 JSON 文件');
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  // Tab 键插入缩进而不是切换焦点
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab' || !selected) return;
+    e.preventDefault();
+    const target = e.currentTarget;
+    const { selectionStart, selectionEnd, value } = target;
+    updateScript(selected.id, { code: value.slice(0, selectionStart) + '  ' + value.slice(selectionEnd) });
+    requestAnimationFrame(() => target.setSelectionRange(selectionStart + 2, selectionStart + 2));
+  };
+
+  return (
+    <div className="h-full flex gap-4 min-h-0">
+      <div className="w-48 flex flex-col min-h-0 shrink-0">
+        <div className="flex items-center justify-between mb-2 shrink-0">
+          <h3 className="text-[11px] font-bold text-gray-600">脚本</h3>
+          <div className="flex space-x-1 text-[11px]">
+            <button onClick={() => fileInputRef.current?.click()} className="p-1 text-gray-500 hover:text-blue-600 rounded" title="导入">
+              <i className="fas fa-file-import"></i>
+            </button>
+            <button onClick={exportData} disabled={scripts.length === 0} className="p-1 text-gray-500 hover:text-blue-600 rounded disabled:opacity-30" title="导出">
+              <i className="fas fa-file-export"></i>
+            </button>
+            <button onClick={addScript} className="p-1 text-gray-500 hover:text-blue-600 rounded" title="新建脚本">
+              <i className="fas fa-plus"></i>
+            </button>
+            <input type="file" ref={fileInputRef} onChange={handleImport} className="hidden" accept=".json" />
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto space-y-1 custom-scrollbar">
+          {scripts.length === 0 && (
+            <div className="text-center py-4 text-[11px] text-gray-400">暂无脚本</div>
+          )}
+          {scripts.map(script => (
+            <div
+              key={script.id}
+              onClick={() => setSelectedId(script.id)}
+              className={`group flex items-center px-2 py-1 rounded cursor-pointer text-xs ${script.id === selected?.id ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-50'}`}
+            >
+              <i className={`fas ${script.id === runningId ? 'fa-circle-notch fa-spin text-green-600' : 'fa-scroll text-gray-400'} mr-2 text-[10px]`}></i>
+              <span className="flex-1 truncate">{script.name || '未命名'}</span>
+              <button
+                onClick={(e) => { e.stopPropagation(); removeScript(script.id); }}
+                disabled={script.id === runningId}
+                className="hidden group-hover:block text-gray-300 hover:text-red-500 disabled:opacity-30"
+                title="删除"
+              >
+                <i className="fas fa-times-circle text-[10px]"></i>
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {selected ? (
+        <div className="flex-1 flex flex-col min-h-0 min-w-0">
+          <div className="flex items-center gap-2 mb-2 shrink-0">
+            <input
+              value={selected.name}
+              onChange={(e) => updateScript(selected.id, { name: e.target.value })}
+              placeholder="脚本名称"
+              className="w-48 px-2 py-1 border border-gray-300 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <span className="flex-1 text-[10px] text-gray-400 truncate" title={apiHelp}>
+              <i className="fas fa-info-circle mr-1"></i>
+              send / expect / sleep / log / setSignals
+            </span>
+            {isRunning ? (
+              <button onClick={onStop} className="px-3 py-1 bg-red-500 hover:bg-red-600 text-white rounded text-[11px] font-bold shadow-sm">
+                <i className="fas fa-stop mr-1"></i>停止{runningId !== selected.id ? ` (${scripts.find(s => s.id === runningId)?.name || '脚本'})` : ''}
+              </button>
+            ) : (
+              <button onClick={() => onRun(selected)} disabled={!isConnected || !selected.code.trim()} className="px-3 py-1 bg-green-600 hover:bg-green-700 text-white rounded text-[11px] font-bold shadow-sm disabled:opacity-30">
+                <i className="fas fa-play mr-1"></i>运行
+              </button>
+            )}
+          </div>
+          <textarea
+            value={selected.code}
+            onChange={(e) => updateScript(selected.id, { code: e.target.value })}
+            onKeyDown={handleKeyDown}
+            spellCheck={false}
+            placeholder={apiHelp}
+            className="flex-1 min-h-0 p-2 bg-gray-50 border border-gray-300 rounded-lg text-xs font-mono focus:ring-2 focus:ring-blue-500 outline-none resize-none"
+          />
+        </div>
+      ) : (
+        <div className="flex-1 flex items-center justify-center text-xs text-gray-400">
+          <button onClick={addScript} className="px-4 py-2 border border-dashed border-gray-300 rounded text-gray-500 hover:border-blue-300 hover:text-blue-600">
+            <i className="fas fa-plus mr-1"></i>新建脚本
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScriptPanel;
@@ -0,0 +1,123 @@
+import React from 'react';
+import { LogTypeFilter, SearchMode, SearchQuery } from '../types';
+import { MAX_MATCHES } from '../utils/search';
+
+interface SearchBarProps {
+  query: SearchQuery;
+  setQuery: React.Dispatch<React.SetStateAction<SearchQuery>>;
+  searchError: string | null;
+  matchCount: number;
+  current: number; // 当前匹配序号，-1 表示尚未定位
+  onNext: () => void;
+  onPrev: () => void;
+  typeFilter: LogTypeFilter;
+  setTypeFilter: React.Dispatch<React.SetStateAction<LogTypeFilter>>;
+  filter: string;
+  setFilter: (val: string) => void;
+  filterError: string | null;
+  ruleCount: number; // 已启用的高亮规则数
+  onToggleRules: () => void;
+}
+
+const searchModes: { value: SearchMode, label: string, placeholder: string }[] = [
+  { value: SearchMode.Text, label: '文本', placeholder: '搜索文本' },
+  { value: SearchMode.Regex, label: '正则', placeholder: '正则表达式，如 err(or)?\\b' },
+  { value: SearchMode.Hex, label: 'HEX', placeholder: '字节序列，如 7E 01' }
+];
+
+const typeButtons: { key: keyof LogTypeFilter, label: string, active: string }[] = [
+  { key: 'rx', label: 'RX', active: 'bg-emerald-100 text-emerald-700 border-emerald-300' },
+  { key: 'tx', label: 'TX', active: 'bg-blue-100 text-blue-700 border-blue-300' },
+  { key: 'sys', label: 'SYS', active: 'bg-gray-200 text-gray-700 border-gray-300' }
+];
+
+// 终端上方的搜索和过滤栏
+const SearchBar: React.FC<SearchBarProps> = ({ query, setQuery, searchError, matchCount, current, onNext, onPrev, typeFilter, setTypeFilter, filter, setFilter, filterError, ruleCount, onToggleRules }) => {
+  const mode = searchModes.find(m => m.value === query.mode) || searchModes[0];
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    if (e.shiftKey) onPrev();
+    else onNext();
+  };
+
+  const countText = !query.pattern || searchError ? '' :
+    matchCount === 0 ? '无匹配' :
+    `${current >= 0 ? current + 1 : '-'} / ${matchCount}${matchCount >= MAX_MATCHES ? '+' : ''}`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-3 py-1.5 border-b border-gray-100 bg-white text-xs font-sans">
+      <div className={`flex items-center border rounded ${searchError ? 'border-red-400' : 'border-gray-300'}`} title={searchError || 'Enter 下一个，Shift+Enter 上一个'}>
+        <i className="fas fa-search text-gray-400 px-2"></i>
+        <select
+          value={query.mode}
+          onChange={(e) => setQuery(prev => ({ ...prev, mode: e.target.value as SearchMode }))}
+          className="bg-transparent text-gray-600 outline-none py-1"
+        >
+          {searchModes.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+        </select>
+        <input
+          type="text"
+          value={query.pattern}
+          onChange={(e) => setQuery(prev => ({ ...prev, pattern: e.target.value }))}
+          onKeyDown={handleKeyDown}
+          placeholder={mode.placeholder}
+          className={`w-44 px-2 py-1 outline-none bg-transparent ${query.mode === SearchMode.Text ? '' : 'font-mono'}`}
+        />
+        {query.mode !== SearchMode.Hex && (
+          <button
+            onClick={() => setQuery(prev => ({ ...prev, caseSensitive: !prev.caseSensitive }))}
+            className={`px-1.5 py-0.5 mr-1 rounded font-mono ${query.caseSensitive ? 'bg-blue-100 text-blue-700' : 'text-gray-400 hover:bg-gray-100'}`}
+            title="区分大小写"
+          >
+            Aa
+          </button>
+        )}
+      </div>
+      <span className={`min-w-[4rem] ${searchError ? 'text-red-500 truncate max-w-[12rem]' : 'text-gray-500'}`} title={searchError || undefined}>
+        {searchError || countText}
+      </span>
+      <button onClick={onPrev} disabled={matchCount === 0} className="px-1.5 py-0.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-30" title="上一个 (Shift+Enter)">
+        <i className="fas fa-chevron-up"></i>
+      </button>
+      <button onClick={onNext} disabled={matchCount === 0} className="px-1.5 py-0.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-30" title="下一个 (Enter)">
+        <i className="fas fa-chevron-down"></i>
+      </button>
+
+      <div className="flex items-center gap-1 ml-auto">
+        <button onClick={onToggleRules} className="px-1.5 py-0.5 mr-1 rounded text-gray-600 hover:bg-gray-100" title="高亮规则">
+          <i className="fas fa-highlighter text-amber-500"></i>
+          {ruleCount > 0 && <span className="ml-1 text-[10px] text-gray-500">{ruleCount}</span>}
+        </button>
+        {typeButtons.map(t => (
+          <button
+            key={t.key}
+            onClick={() => setTypeFilter(prev => ({ ...prev, [t.key]: !prev[t.key] }))}
+            className={`px-1.5 py-0.5 rounded border text-[10px] font-bold ${typeFilter[t.key] ? t.active : 'bg-white text-gray-300 border-gray-200 line-through'}`}
+            title={`显示/隐藏 ${t.label} 记录`}
+          >
+            {t.label}
+          </button>
+        ))}
+        <div className={`flex items-center border rounded ml-1 ${filterError ? 'border-red-400' : 'border-gray-300'}`} title={filterError || '只显示匹配该正则表达式的行（不区分大小写）'}>
+          <i className="fas fa-filter text-gray-400 px-2"></i>
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="过滤行"
+            className="w-32 px-1 py-1 outline-none bg-transparent font-mono"
+          />
+          {filter && (
+            <button onClick={() => setFilter('')} className="px-1.5 text-gray-400 hover:text-gray-600" title="清除过滤">
+              <i className="fas fa-times"></i>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SearchBar;
@@ -1,19 +1,25 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { DisplayMode, FileSendMode } from '../types';
+import { DisplayMode, FileSendMode, FileSendOptions, FileReceiveOptions, LineEnding, TextSendOptions, TextEncoding } from '../types';
 import { stringToUint8Array, uint8ArrayToString, hexToUint8Array, uint8ArrayToHex } from '../utils/converters';
+import { SessionSettings } from '../utils/sessionSettings';
 
 interface SenderProps {
   onSend: (data: string, mode: DisplayMode) => void;
-  onFileSend: (file: File, options: { mode: FileSendMode, throttleBytes: number, throttleMs: number, onProgress: (p: number) => void }) => Promise<void>;
+  textOptions: TextSendOptions; // 文本模式的行结束符与转义，由发送方统一处理
+  setTextOptions: (options: TextSendOptions) => void;
+  encoding: TextEncoding; // 文本与 Hex 互相转换时使用
+  settings: SessionSettings; // 保存输入草稿
+  onFileSend: (file: File, options: FileSendOptions) => Promise<void>;
+  onFileReceive: (options: FileReceiveOptions) => Promise<void>;
   isConnected: boolean;
   isReconnecting?: boolean;
 }
 
-const Sender: React.FC<SenderProps> = ({ onSend, onFileSend, isConnected, isReconnecting = false }) => {
+const Sender: React.FC<SenderProps> = ({ onSend, textOptions, setTextOptions, encoding, settings, onFileSend, onFileReceive, isConnected, isReconnecting = false }) => {
   const [mode, setMode] = useState<DisplayMode>(DisplayMode.Text);
   const [input, setInput] = useState(() => {
-    const saved = localStorage.getItem('serial-input');
+    const saved = settings.load('serial-input');
     if (saved !== null) {
       try {
         // 尝试将文本转换为Hex格式（如果需要的话）
@@ -27,49 +33,52 @@ const Sender: React.FC<SenderProps> = ({ onSend, onFileSend, isConnected, isReco
   });
   const [isTimerEnabled, setIsTimerEnabled] = useState(false);
   const [timerInterval, setTimerInterval] = useState(1000);
-  const [addNewline, setAddNewline] = useState(false);
 
-  // 持久化输入内容到 localStorage - 始终保存为文本格式
+  // 按会话持久化输入内容 - 始终保存为文本格式
   useEffect(() => {
     let contentToSave = input;
     // 如果当前是Hex模式，先转换为文本再保存
     if (mode === DisplayMode.Hex && input) {
       try {
         const data = hexToUint8Array(input);
-        contentToSave = uint8ArrayToString(data);
+        contentToSave = uint8ArrayToString(data, encoding);
       } catch (error) {
         // 转换失败时保持原样
         console.error('Hex转文本失败:', error);
       }
     }
-    localStorage.setItem('serial-input', contentToSave);
-  }, [input, mode]);
+    settings.save('serial-input', contentToSave);
+  }, [input, mode, encoding]);
   
   // 文件发送相关
   const [fileSendMode, setFileSendMode] = useState<FileSendMode>(FileSendMode.Raw);
   const [throttleBytes, setThrottleBytes] = useState(128);
   const [throttleMs, setThrottleMs] = useState(10);
+  const [maxRetries, setMaxRetries] = useState(10);
+  const [responseTimeoutMs, setResponseTimeoutMs] = useState(10000);
   const [isSendingFile, setIsSendingFile] = useState(false);
   const [fileProgress, setFileProgress] = useState(0);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [isReceiveMode, setIsReceiveMode] = useState(false); // 文件传输方向：接收
+  const [isReceivingFile, setIsReceivingFile] = useState(false);
+  const [receiveProgress, setReceiveProgress] = useState<{ received: number, total: number | null }>({ received: 0, total: null });
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const fileAbortRef = useRef<AbortController | null>(null);
 
   // 定时发送逻辑
   useEffect(() => {
     let interval: any;
     if (isTimerEnabled && isConnected && input.trim()) {
       interval = setInterval(() => {
-        const dataToSend = addNewline ? input + '\r\n' : input;
-        onSend(dataToSend, mode);
+        onSend(input, mode);
       }, timerInterval);
     }
     return () => clearInterval(interval);
-  }, [isTimerEnabled, isConnected, input, timerInterval, addNewline, mode, onSend]);
+  }, [isTimerEnabled, isConnected, input, timerInterval, mode, onSend]);
 
   const handleSendClick = () => {
     if (!input.trim()) return;
-    const dataToSend = addNewline ? input + '\r\n' : input;
-    onSend(dataToSend, mode);
+    onSend(input, mode);
   };
 
   // 切换模式时转换内容
@@ -82,13 +91,13 @@ const Sender: React.FC<SenderProps> = ({ onSend, onFileSend, isConnected, isReco
     try {
       if (mode === DisplayMode.Text && newMode === DisplayMode.Hex) {
         // 从文本转Hex
-        const data = stringToUint8Array(input);
+        const data = stringToUint8Array(input, encoding);
         const hexStr = uint8ArrayToHex(data);
         setInput(hexStr);
       } else if (mode === DisplayMode.Hex && newMode === DisplayMode.Text) {
         // 从Hex转文本
         const data = hexToUint8Array(input);
-        const textStr = uint8ArrayToString(data);
+        const textStr = uint8ArrayToString(data, encoding);
         setInput(textStr);
       }
       setMode(newMode);
@@ -109,33 +118,57 @@ const Sender: React.FC<SenderProps> = ({ onSend, onFileSend, isConnected, isReco
   const handleFileSendClick = async () => {
     if (!selectedFile || !isConnected) return;
     
+    const controller = new AbortController();
+    fileAbortRef.current = controller;
     setIsSendingFile(true);
     setFileProgress(0);
     await onFileSend(selectedFile, {
       mode: fileSendMode,
       throttleBytes,
       throttleMs,
-      onProgress: setFileProgress
+      onProgress: setFileProgress,
+      signal: controller.signal,
+      maxRetries,
+      timeoutMs: responseTimeoutMs
     });
+    fileAbortRef.current = null;
     setIsSendingFile(false);
   };
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file || !isConnected) return;
-    
-    setIsSendingFile(true);
-    setFileProgress(0);
-    await onFileSend(file, {
+  const handleFileReceiveClick = async () => {
+    if (!isConnected) return;
+
+    const controller = new AbortController();
+    fileAbortRef.current = controller;
+    setIsReceivingFile(true);
+    setReceiveProgress({ received: 0, total: null });
+    await onFileReceive({
       mode: fileSendMode,
-      throttleBytes,
-      throttleMs,
-      onProgress: setFileProgress
+      onProgress: (received, total) => setReceiveProgress({ received, total }),
+      signal: controller.signal,
+      maxRetries,
+      timeoutMs: responseTimeoutMs
     });
-    setIsSendingFile(false);
-    if (fileInputRef.current) fileInputRef.current.value = '';
+    fileAbortRef.current = null;
+    setIsReceivingFile(false);
   };
 
+  // 切换传输方向，接收不支持 RAW 模式
+  const handleDirectionChange = (receive: boolean) => {
+    setIsReceiveMode(receive);
+    if (receive && fileSendMode === FileSendMode.Raw) {
+      setFileSendMode(FileSendMode.YModem);
+    }
+  };
+
+  // 取消正在进行的文件发送/接收
+  const handleFileCancel = () => {
+    fileAbortRef.current?.abort();
+  };
+
+  const isFileBusy = isSendingFile || isReceivingFile;
+  const receivePercent = receiveProgress.total ? Math.round((receiveProgress.received / receiveProgress.total) * 100) : 0;
+
   return (
     <div className="h-full flex flex-col min-h-0">
       <div className="flex gap-4 flex-1 min-h-0">
@@ -148,10 +181,27 @@ const Sender: React.FC<SenderProps> = ({ onSend, onFileSend, isConnected, isReco
             </div>
             
             <div className="flex items-center space-x-3 text-[11px]">
-              <label className="flex items-center cursor-pointer text-gray-600">
-                <input type="checkbox" checked={addNewline} onChange={e => setAddNewline(e.target.checked)} className="mr-1 rounded text-blue-600" />
-                加 \r\n
-              </label>
+              {mode === DisplayMode.Text && (
+                <>
+                  <label className="flex items-center text-gray-600">
+                    结尾
+                    <select
+                      value={textOptions.lineEnding}
+                      onChange={e => setTextOptions({ ...textOptions, lineEnding: e.target.value as LineEnding })}
+                      className="ml-1 px-1 py-0.5 border rounded outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                      <option value={LineEnding.None}>无</option>
+                      <option value={LineEnding.CR}>CR (\r)</option>
+                      <option value={LineEnding.LF}>LF (\n)</option>
+                      <option value={LineEnding.CRLF}>CRLF (\r\n)</option>
+                    </select>
+                  </label>
+                  <label className="flex items-center cursor-pointer text-gray-600" title="解析 \r \n \t \0 \xHH 转义序列">
+                    <input type="checkbox" checked={textOptions.parseEscapes} onChange={e => setTextOptions({ ...textOptions, parseEscapes: e.target.checked })} className="mr-1 rounded text-blue-600" />
+                    转义
+                  </label>
+                </>
+              )}
               <div className="flex items-center text-gray-600">
                 <input type="checkbox" checked={isTimerEnabled} onChange={e => setIsTimerEnabled(e.target.checked)} className="mr-1 rounded text-blue-600" />
                 定时发送
@@ -184,76 +234,136 @@ const Sender: React.FC<SenderProps> = ({ onSend, onFileSend, isConnected, isReco
         {/* 右侧：文件发送区 */}
         <div className="w-72 p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-3 shrink-0">
           <div className="flex items-center justify-between">
-            <h3 className="text-[11px] font-bold text-gray-600">文件传输</h3>
-            <div className="flex bg-gray-200 p-0.5 rounded text-[9px]">
-              <button onClick={() => setFileSendMode(FileSendMode.Raw)} className={`px-2 py-0.5 rounded ${fileSendMode === FileSendMode.Raw ? 'bg-white shadow-sm font-bold text-blue-600' : 'text-gray-500'}`}>RAW</button>
-              <button onClick={() => setFileSendMode(FileSendMode.YModem)} className={`px-2 py-0.5 rounded ${fileSendMode === FileSendMode.YModem ? 'bg-white shadow-sm font-bold text-blue-600' : 'text-gray-500'}`}>YModem</button>
+            <div className="flex items-center space-x-2">
+              <h3 className="text-[11px] font-bold text-gray-600">文件传输</h3>
+              <div className="flex bg-gray-200 p-0.5 rounded text-[9px]">
+                <button onClick={() => handleDirectionChange(false)} disabled={isFileBusy} className={`px-2 py-0.5 rounded ${!isReceiveMode ? 'bg-white shadow-sm font-bold text-blue-600' : 'text-gray-500'}`}>发送</button>
+                <button onClick={() => handleDirectionChange(true)} disabled={isFileBusy} className={`px-2 py-0.5 rounded ${isReceiveMode ? 'bg-white shadow-sm font-bold text-blue-600' : 'text-gray-500'}`}>接收</button>
+              </div>
             </div>
+            <select
+              value={fileSendMode}
+              onChange={e => setFileSendMode(e.target.value as FileSendMode)}
+              disabled={isFileBusy}
+              className="bg-gray-200 px-1 py-0.5 rounded text-[10px] text-blue-600 font-bold outline-none"
+            >
+              {!isReceiveMode && <option value={FileSendMode.Raw}>RAW</option>}
+              <option value={FileSendMode.YModem}>YModem</option>
+              <option value={FileSendMode.XModem}>XModem</option>
+              <option value={FileSendMode.XModemCRC}>XModem-CRC</option>
+              <option value={FileSendMode.XModem1K}>XModem-1K</option>
+            </select>
           </div>
 
-          <div className="space-y-2">
-            <div className="flex items-center justify-between text-[10px] text-gray-500">
-              <span>每批发送 (字节)</span>
-              <input type="number" value={throttleBytes} onChange={e => setThrottleBytes(Number(e.target.value))} className="w-14 px-1 border rounded text-center" />
-            </div>
-            <div className="flex items-center justify-between text-[10px] text-gray-500">
-              <span>延迟 (毫秒)</span>
-              <input type="number" value={throttleMs} onChange={e => setThrottleMs(Number(e.target.value))} className="w-14 px-1 border rounded text-center" />
+          {fileSendMode === FileSendMode.Raw ? (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-[10px] text-gray-500">
+                <span>每批发送 (字节)</span>
+                <input type="number" value={throttleBytes} onChange={e => setThrottleBytes(Number(e.target.value))} className="w-14 px-1 border rounded text-center" />
+              </div>
+              <div className="flex items-center justify-between text-[10px] text-gray-500">
+                <span>延迟 (毫秒)</span>
+                <input type="number" value={throttleMs} onChange={e => setThrottleMs(Number(e.target.value))} className="w-14 px-1 border rounded text-center" />
+              </div>
             </div>
-          </div>
-
-          <div className="pt-1">
-            <input type="file" ref={fileInputRef} onChange={handleFileSelect} className="hidden" />
-            
-            {/* 显示选中的文件信息 */}
-            {selectedFile && (
-              <div className="text-[10px] text-gray-600 mb-2 p-2 bg-white border border-gray-200 rounded">
-                <div className="flex items-center">
-                  <i className="fas fa-file mr-2 text-blue-500"></i>
-                  <span className="truncate flex-1">{selectedFile.name}</span>
-                </div>
-                <div className="flex items-center justify-between mt-1">
-                  <span>大小: {(selectedFile.size / 1024).toFixed(2)} KB</span>
-                  <button 
-                    onClick={() => setSelectedFile(null)}
-                    className="text-red-500 hover:text-red-700"
-                  >
-                    <i className="fas fa-times"></i>
-                  </button>
-                </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-[10px] text-gray-500">
+                <span>最大重试次数</span>
+                <input type="number" min={0} value={maxRetries} onChange={e => setMaxRetries(Number(e.target.value))} className="w-14 px-1 border rounded text-center" />
               </div>
-            )}
+              <div className="flex items-center justify-between text-[10px] text-gray-500">
+                <span>应答超时 (毫秒)</span>
+                <input type="number" min={100} value={responseTimeoutMs} onChange={e => setResponseTimeoutMs(Number(e.target.value))} className="w-14 px-1 border rounded text-center" />
+              </div>
+            </div>
+          )}
 
-            {/* 两个按钮：选择文件和发送 */}
-            <div className="flex gap-2">
-              <button 
-                onClick={() => fileInputRef.current?.click()}
-                disabled={(!isConnected && !isReconnecting) || isSendingFile}
-                className={`flex-1 py-2 rounded-md text-[11px] font-bold transition-all shadow-sm flex items-center justify-center disabled:opacity-30 disabled:cursor-not-allowed ${
-                  isSendingFile ? 'bg-gray-100 text-gray-500' : 'bg-white border border-blue-500 text-blue-600 hover:bg-blue-50'
-                }`}
-              >
-                <i className="fas fa-folder-open mr-2"></i>
-                选择文件
-              </button>
-              <button 
-                onClick={handleFileSendClick}
-                disabled={(!isConnected && !isReconnecting) || isSendingFile || !selectedFile}
-                className={`flex-1 py-2 rounded-md text-[11px] font-bold transition-all shadow-sm flex items-center justify-center disabled:opacity-30 disabled:cursor-not-allowed ${
-                  isSendingFile ? 'bg-amber-100 text-amber-700' : 'bg-blue-600 text-white hover:bg-blue-700'
+          {isReceiveMode ? (
+            <div className="pt-1">
+              <button
+                onClick={handleFileReceiveClick}
+                disabled={!isConnected || isReceivingFile}
+                className={`w-full py-2 rounded-md text-[11px] font-bold transition-all shadow-sm flex items-center justify-center disabled:opacity-30 disabled:cursor-not-allowed ${
+                  isReceivingFile ? 'bg-amber-100 text-amber-700' : 'bg-blue-600 text-white hover:bg-blue-700'
                 }`}
               >
-                <i className={`fas ${isSendingFile ? 'fa-sync fa-spin' : 'fa-paper-plane'} mr-2`}></i>
-                {isSendingFile ? `发送中 ${fileProgress}%` : '发送'}
+                <i className={`fas ${isReceivingFile ? 'fa-sync fa-spin' : 'fa-download'} mr-2`}></i>
+                {isReceivingFile
+                  ? (receiveProgress.total !== null ? `接收中 ${receivePercent}%` : `接收中 ${(receiveProgress.received / 1024).toFixed(1)} KB`)
+                  : '开始接收'}
               </button>
+
+              {isReceivingFile && (
+                <div className="flex items-center gap-2 mt-2">
+                  <div className="flex-1 bg-gray-200 rounded-full h-1">
+                    <div className="bg-amber-500 h-1 rounded-full transition-all" style={{ width: `${receivePercent}%` }}></div>
+                  </div>
+                  <button onClick={handleFileCancel} className="text-[10px] text-red-500 hover:text-red-700">
+                    取消
+                  </button>
+                </div>
+              )}
             </div>
-            
-            {isSendingFile && (
-              <div className="w-full bg-gray-200 rounded-full h-1 mt-2">
-                <div className="bg-amber-500 h-1 rounded-full transition-all" style={{ width: `${fileProgress}%` }}></div>
+          ) : (
+            <div className="pt-1">
+              <input type="file" ref={fileInputRef} onChange={handleFileSelect} className="hidden" />
+              
+              {/* 显示选中的文件信息 */}
+              {selectedFile && (
+                <div className="text-[10px] text-gray-600 mb-2 p-2 bg-white border border-gray-200 rounded">
+                  <div className="flex items-center">
+                    <i className="fas fa-file mr-2 text-blue-500"></i>
+                    <span className="truncate flex-1">{selectedFile.name}</span>
+                  </div>
+                  <div className="flex items-center justify-between mt-1">
+                    <span>大小: {(selectedFile.size / 1024).toFixed(2)} KB</span>
+                    <button 
+                      onClick={() => setSelectedFile(null)}
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      <i className="fas fa-times"></i>
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* 两个按钮：选择文件和发送 */}
+              <div className="flex gap-2">
+                <button 
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={(!isConnected && !isReconnecting) || isSendingFile}
+                  className={`flex-1 py-2 rounded-md text-[11px] font-bold transition-all shadow-sm flex items-center justify-center disabled:opacity-30 disabled:cursor-not-allowed ${
+                    isSendingFile ? 'bg-gray-100 text-gray-500' : 'bg-white border border-blue-500 text-blue-600 hover:bg-blue-50'
+                  }`}
+                >
+                  <i className="fas fa-folder-open mr-2"></i>
+                  选择文件
+                </button>
+                <button 
+                  onClick={handleFileSendClick}
+                  disabled={(!isConnected && !isReconnecting) || isSendingFile || !selectedFile}
+                  className={`flex-1 py-2 rounded-md text-[11px] font-bold transition-all shadow-sm flex items-center justify-center disabled:opacity-30 disabled:cursor-not-allowed ${
+                    isSendingFile ? 'bg-amber-100 text-amber-700' : 'bg-blue-600 text-white hover:bg-blue-700'
+                  }`}
+                >
+                  <i className={`fas ${isSendingFile ? 'fa-sync fa-spin' : 'fa-paper-plane'} mr-2`}></i>
+                  {isSendingFile ? `发送中 ${fileProgress}%` : '发送'}
+                </button>
               </div>
-            )}
-          </div>
+              
+              {isSendingFile && (
+                <div className="flex items-center gap-2 mt-2">
+                  <div className="flex-1 bg-gray-200 rounded-full h-1">
+                    <div className="bg-amber-500 h-1 rounded-full transition-all" style={{ width: `${fileProgress}%` }}></div>
+                  </div>
+                  <button onClick={handleFileCancel} className="text-[10px] text-red-500 hover:text-red-700">
+                    取消
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
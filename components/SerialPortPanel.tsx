@@ -0,0 +1,88 @@
+import React from 'react';
+import { SerialPortFilterConfig } from '../types';
+import { formatSerialPortInfo, SerialPort } from '../transports';
+
+interface SerialPortPanelProps {
+  ports: SerialPort[];
+  selectedPort: SerialPort | null;
+  setSelectedPort: (port: SerialPort | null) => void;
+  filter: SerialPortFilterConfig;
+  setFilter: React.Dispatch<React.SetStateAction<SerialPortFilterConfig>>;
+  autoReconnect: boolean;
+  setAutoReconnect: (val: boolean) => void;
+  disabled: boolean;
+}
+
+const SerialPortPanel: React.FC<SerialPortPanelProps> = ({ ports, selectedPort, setSelectedPort, filter, setFilter, autoReconnect, setAutoReconnect, disabled }) => {
+  const selectedIndex = selectedPort ? ports.indexOf(selectedPort) : -1;
+
+  const updateFilter = (key: keyof SerialPortFilterConfig, value: string) => {
+    setFilter(prev => ({ ...prev, [key]: value.replace(/[^0-9a-fA-Fx]/g, '') }));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-600 mb-1">串口设备</label>
+        <select
+          value={selectedIndex}
+          onChange={(e) => {
+            const index = Number(e.target.value);
+            setSelectedPort(index >= 0 ? ports[index] : null);
+          }}
+          disabled={disabled}
+          className="w-full bg-gray-50 border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 outline-none"
+        >
+          <option value={-1}>选择新设备...</option>
+          {ports.map((port, index) => (
+            <option key={index} value={index}>
+              #{index + 1} {formatSerialPortInfo(port.getInfo())}{port.connected === false ? ' (未插入)' : ''}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">已授权过的设备无需再次弹出选择框</p>
+      </div>
+
+      {!selectedPort && (
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">设备过滤 (VID / PID)</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={filter.usbVendorId}
+              onChange={(e) => updateFilter('usbVendorId', e.target.value)}
+              disabled={disabled}
+              placeholder="VID 如 1A86"
+              maxLength={6}
+              className="w-full min-w-0 bg-gray-50 border border-gray-300 rounded-md py-1.5 px-2 text-xs font-mono focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 outline-none"
+            />
+            <span className="text-gray-400">:</span>
+            <input
+              type="text"
+              value={filter.usbProductId}
+              onChange={(e) => updateFilter('usbProductId', e.target.value)}
+              disabled={disabled}
+              placeholder="PID 如 7523"
+              maxLength={6}
+              className="w-full min-w-0 bg-gray-50 border border-gray-300 rounded-md py-1.5 px-2 text-xs font-mono focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 outline-none"
+            />
+          </div>
+          <p className="text-xs text-gray-500 mt-1">十六进制，留空则列出全部设备</p>
+        </div>
+      )}
+
+      <label className="flex items-center text-xs text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={autoReconnect}
+          onChange={(e) => setAutoReconnect(e.target.checked)}
+          disabled={disabled}
+          className="mr-2 rounded text-blue-600 focus:ring-0"
+        />
+        <span>USB 重新插入后自动重连</span>
+      </label>
+    </div>
+  );
+};
+
+export default SerialPortPanel;
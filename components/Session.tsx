@@ -0,0 +1,1348 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  SerialConfig,
+  DataBits,
+  StopBits,
+  Parity,
+  DisplayMode,
+  LogEntry,
+  QuickSendItem,
+  FileSendMode,
+  FileSendOptions,
+  FileReceiveOptions,
+  CommMode,
+  Transport,
+  VirtualDeviceConfig,
+  SerialInputSignals,
+  SerialPortFilterConfig,
+  WebSocketOptions,
+  GattServiceInfo,
+  BluetoothWriteOptions,
+  SessionInfo,
+  BridgeOptions,
+  DataSource,
+  LineEnding,
+  TextSendOptions,
+  TextEncoding,
+  InteractiveOptions,
+  FramingMode,
+  FramingOptions,
+  HighlightRule,
+  TriggerRule,
+  UserScript,
+  TestCase
+} from '../types';
+
+import { 
+  uint8ArrayToHex, 
+  uint8ArrayToString, 
+  stringToUint8Array, 
+  hexToUint8Array,
+  lineEndingText,
+  parseEscapes
+} from '../utils/converters';
+import { ByteQueue, createByteQueue } from '../utils/byteQueue';
+import { xmodemSend, xmodemReceive, XModemVariant } from '../utils/xmodem';
+import { ymodemSend, ymodemReceive, ReceivedFile } from '../utils/ymodem';
+import { BLE_DEFAULT_CHUNK_SIZE, BluetoothDevice, createTransport, discoverGattServices, getGrantedSerialPorts, SerialPort, watchSerialPorts } from '../transports';
+import { DEFAULT_RECONNECT_POLICY, getReconnectDelay } from '../utils/backoff';
+import { createTextDecoder, TextDecoderLike } from '../utils/encoding';
+import { createLogStore, LogStore } from '../utils/logStore';
+import { createFramer, Framer } from '../utils/framing';
+import { createTriggerMatcher } from '../utils/triggers';
+import { runScript, ScriptHost, ScriptRunner } from '../utils/scriptRunner';
+import { countResults, runTests, TestReport, TestRun } from '../utils/testRunner';
+import { createSessionSettings } from '../utils/sessionSettings';
+import { enterText, keyToBytes, localEchoText } from '../utils/keys';
+
+// Standard components
+import Sidebar from './Sidebar';
+import Terminal from './Terminal';
+import Timeline, { TimelineSource } from './Timeline';
+import Sender from './Sender';
+import QuickSendList from './QuickSendList';
+import ScriptPanel from './ScriptPanel';
+import TestPanel from './TestPanel';
+
+// 控制信号名称，用于日志
+const signalLabels: Record<string, string> = {
+  dataTerminalReady: 'DTR',
+  requestToSend: 'RTS',
+  clearToSend: 'CTS',
+  dataSetReady: 'DSR',
+  dataCarrierDetect: 'DCD',
+  ringIndicator: 'RI',
+  break: 'BREAK'
+};
+
+// 文件传输协议名称及对应的 XModem 变体
+const protocolNames: Record<string, string> = {
+  [FileSendMode.YModem]: 'YModem',
+  [FileSendMode.XModem]: 'XModem',
+  [FileSendMode.XModemCRC]: 'XModem-CRC',
+  [FileSendMode.XModem1K]: 'XModem-1K'
+};
+const xmodemVariants: Record<string, XModemVariant> = {
+  [FileSendMode.XModem]: 'checksum',
+  [FileSendMode.XModemCRC]: 'crc',
+  [FileSendMode.XModem1K]: '1k'
+};
+
+interface SessionProps {
+  session: SessionInfo;
+  isActive: boolean; // 非当前标签页的会话隐藏但保持连接
+  tabs: React.ReactNode;
+  timelineSource: TimelineSource | null; // 不为空时显示合并时间线
+  quickSendItems: QuickSendItem[];
+  setQuickSendItems: (items: QuickSendItem[]) => void;
+  highlightRules: HighlightRule[];
+  setHighlightRules: (rules: HighlightRule[]) => void;
+  scripts: UserScript[];
+  setScripts: (scripts: UserScript[]) => void;
+  testCases: TestCase[];
+  setTestCases: (testCases: TestCase[]) => void;
+  onLogsChange?: (sessionId: string, store: LogStore) => void;
+  onStatusChange: (sessionId: string, status: { isConnected: boolean, isPaused: boolean }) => void;
+}
+
+// 单个会话：独立的链路、配置、日志缓冲区、发送区和暂停状态
+const Session: React.FC<SessionProps> = ({ session, isActive, tabs, timelineSource, quickSendItems, setQuickSendItems, highlightRules, setHighlightRules, scripts, setScripts, testCases, setTestCases, onLogsChange, onStatusChange }) => {
+  // 会话设置按会话 id 分别保存
+  const [settings] = useState(() => createSessionSettings(session.id));
+  const [isConnected, setIsConnected] = useState(false);
+  const [isAutoLineBreak, setIsAutoLineBreak] = useState(false);
+  const [rxLineEnding, setRxLineEnding] = useState<LineEnding>(() => (settings.load('rx_line_ending') as LineEnding) || LineEnding.None);
+  const [ansiEnabled, setAnsiEnabled] = useState(() => settings.load('ansi_enabled') !== 'false');
+  const [interactiveOptions, setInteractiveOptions] = useState<InteractiveOptions>(() => {
+    const saved = settings.load('interactive_options');
+    return saved ? JSON.parse(saved) : { enabled: false, enter: LineEnding.CR, backspace: 'del', localEcho: false, pasteChunkSize: 16, pasteDelayMs: 10 };
+  });
+  // 接收分帧设置
+  const [framingOptions, setFramingOptions] = useState<FramingOptions>(() => {
+    const saved = settings.load('rx_framing_options');
+    return saved ? JSON.parse(saved) : {
+      mode: FramingMode.None, idleMs: 5, delimiter: '0D 0A', frameLength: 16,
+      lengthOffset: 0, lengthWidth: 1, lengthBigEndian: true, lengthAdjust: 0
+    };
+  });
+  // 自动应答触发器
+  const [triggers, setTriggers] = useState<TriggerRule[]>(() => {
+    const saved = settings.load('auto_response_triggers');
+    return saved ? JSON.parse(saved) : [];
+  });
+  const [triggerCounts, setTriggerCounts] = useState<Record<string, number>>({});
+  const [triggerMatcher] = useState(createTriggerMatcher);
+  const [runningScriptId, setRunningScriptId] = useState<string | null>(null);
+  const [testReport, setTestReport] = useState<TestReport | null>(null);
+  const [bottomTab, setBottomTab] = useState<'send' | 'script' | 'test'>('send');
+  // 字符编码，同时用于接收解码和发送编码
+  const [textEncoding, setTextEncoding] = useState<TextEncoding>(() => (settings.load('text_encoding') as TextEncoding) || TextEncoding.UTF8);
+  // 文本发送的行结束符与转义选项，发送区和快捷发送共用
+  const [txOptions, setTxOptions] = useState<TextSendOptions>(() => {
+    const saved = settings.load('tx_text_options');
+    return saved ? JSON.parse(saved) : { lineEnding: LineEnding.None, parseEscapes: false };
+  });
+  const [isAutoScroll, setIsAutoScroll] = useState(true);
+  const [isPaused, setIsPaused] = useState(false); // 新增暂停状态
+  const [maxBufferSize, setMaxBufferSize] = useState(() => parseInt(settings.load('max_buffer_size') || '', 10) || 100 * 1024); // 最大缓冲区大小，默认100KB
+
+  // 通讯链路相关状态
+  const [commMode, setCommMode] = useState<CommMode>(CommMode.Serial);
+  const [wsUrl, setWsUrl] = useState(() => {
+    const saved = settings.load('ws_url');
+    return saved !== null ? saved : 'ws://localhost:8080';
+  });
+  const [wsOptions, setWsOptions] = useState<WebSocketOptions>(() => {
+    const saved = settings.load('ws_options');
+    return saved ? JSON.parse(saved) : {
+      protocols: '',
+      reconnect: { initialDelayMs: 1000, maxDelayMs: 30000, multiplier: 2, jitter: 0.2, maxAttempts: 0 },
+      heartbeat: { enabled: false, intervalMs: 15000, timeoutMs: 45000, payload: 'ping' }
+    };
+  });
+  const transportRef = useRef<Transport | null>(null); // 当前通讯链路
+  const shouldReconnectRef = useRef(true); // 控制是否自动重连
+  const reconnectTimerRef = useRef<NodeJS.Timeout | null>(null); // 重连定时器
+  const reconnectAttemptRef = useRef(0); // 连续重连次数，连接成功后清零
+  const [isReconnecting, setIsReconnecting] = useState(false); // 是否正在重连中
+  const [reconnectInfo, setReconnectInfo] = useState<{ attempt: number, maxAttempts: number, nextRetryAt: number } | null>(null);
+
+  // 蓝牙相关状态
+  const [bluetoothServiceUUID, setBluetoothServiceUUID] = useState(() => {
+    const saved = settings.load('bluetooth_service_uuid');
+    return saved !== null ? saved : '';
+  });
+  const [bluetoothTxCharacteristicUUID, setBluetoothTxCharacteristicUUID] = useState(() => {
+    const saved = settings.load('bluetooth_tx_characteristic_uuid');
+    return saved !== null ? saved : '';
+  });
+  const [bluetoothRxCharacteristicUUID, setBluetoothRxCharacteristicUUID] = useState(() => {
+    const saved = settings.load('bluetooth_rx_characteristic_uuid');
+    return saved !== null ? saved : '';
+  });
+
+  const [bluetoothWriteOptions, setBluetoothWriteOptions] = useState<BluetoothWriteOptions>(() => {
+    const saved = settings.load('bluetooth_write_options');
+    return saved ? JSON.parse(saved) : { chunkSize: BLE_DEFAULT_CHUNK_SIZE, withoutResponse: false, maxInFlight: 4 };
+  });
+
+  // 桥接模式选项及各方向转发字节数
+  const [bridgeOptions, setBridgeOptions] = useState<BridgeOptions>(() => {
+    const saved = settings.load('bridge_options');
+    return saved ? JSON.parse(saved) : { logTraffic: true, hexLog: false };
+  });
+  const [sourceCounters, setSourceCounters] = useState<Record<string, number>>({});
+
+  // 蓝牙服务发现结果，发现后连接时直接使用该设备
+  const [bluetoothDevice, setBluetoothDevice] = useState<BluetoothDevice | null>(null);
+  const [gattServices, setGattServices] = useState<GattServiceInfo[]>([]);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+
+  // 已授权的串口设备及选择
+  const [grantedSerialPorts, setGrantedSerialPorts] = useState<SerialPort[]>([]);
+  const [selectedSerialPort, setSelectedSerialPort] = useState<SerialPort | null>(null);
+  const [serialPortFilter, setSerialPortFilter] = useState<SerialPortFilterConfig>(() => {
+    const saved = settings.load('serial_port_filter');
+    return saved ? JSON.parse(saved) : { usbVendorId: '', usbProductId: '' };
+  });
+  const [serialAutoReconnect, setSerialAutoReconnect] = useState(() => settings.load('serial_auto_reconnect') === 'true');
+
+  // 串口控制信号：Web Serial 打开串口时默认置位 DTR/RTS
+  const [outputSignals, setOutputSignals] = useState({ dataTerminalReady: true, requestToSend: true });
+  const [inputSignals, setInputSignals] = useState<SerialInputSignals | null>(null);
+
+  // 虚拟设备配置
+  const [virtualDeviceConfig, setVirtualDeviceConfig] = useState<VirtualDeviceConfig>(() => {
+    const saved = settings.load('virtual_device_config');
+    return saved ? JSON.parse(saved) : { echo: true, latencyMs: 10, chunkSize: 0, rules: [], telemetry: [] };
+  });
+
+  const [config, setConfig] = useState<SerialConfig>({
+    baudRate: 115200,
+    dataBits: DataBits.Eight,
+    stopBits: StopBits.One,
+    parity: Parity.None,
+    bufferSize: 255,
+    flowControl: 'none'
+  });
+  
+  const [logStore] = useState(() => createLogStore(maxBufferSize));
+  const [logVersion, setLogVersion] = useState(0); // 日志缓冲区修改后递增，触发重新渲染
+  const pendingLogsRef = useRef<LogEntry[]>([]); // 等待下一帧合并的日志
+  const flushCancelRef = useRef<(() => void) | null>(null);
+  const [displayMode, setDisplayMode] = useState<DisplayMode>(DisplayMode.Text);
+
+  // 添加频率统计相关状态
+  const [lineFrequency, setLineFrequency] = useState(0);
+  const [splitPosition, setSplitPosition] = useState(60); // 分割条位置（百分比）
+  const [isDragging, setIsDragging] = useState(false);
+
+  const terminalEndRef = useRef<HTMLDivElement>(null);
+  const mainRef = useRef<HTMLElement>(null);
+  const encodingRef = useRef(textEncoding); // 链路回调中读取最新编码
+  const decoderRef = useRef<TextDecoderLike>(createTextDecoder(textEncoding));
+  const sourceDecodersRef = useRef<Record<string, TextDecoderLike>>({}); // 桥接模式每个方向单独解码
+  const framerRef = useRef<Framer | null>(null); // 接收分帧，桥接转发的数据不分帧
+  const triggersRef = useRef(triggers); // 接收回调中读取最新的触发器
+  const bridgeOptionsRef = useRef(bridgeOptions); // 接收回调中读取最新的桥接日志设置
+  const triggerTimersRef = useRef(new Set<ReturnType<typeof setTimeout>>()); // 等待延迟发送的应答
+  const sendDataRef = useRef<((input: string, mode: DisplayMode) => Promise<void>) | null>(null);
+  const scriptRunnerRef = useRef<ScriptRunner | null>(null);
+  const testRunRef = useRef<TestRun | null>(null);
+  const scriptHostRef = useRef<Pick<ScriptHost, 'send' | 'setSignals'> | null>(null); // 脚本调用时读取最新的连接状态
+  const isPausedRef = useRef(false); // 使用ref来跟踪暂停状态，确保在异步函数中能获取最新值
+  const sendQueueRef = useRef<{data: Uint8Array, text: string, mode: DisplayMode}[]>([]); // 发送队列
+  const isSendingRef = useRef(false); // 是否正在发送
+  const modemQueueRef = useRef<ByteQueue | null>(null); // 文件传输协议运行时截获接收数据
+  
+  // 用于统计每秒\n的计数器
+  const newlineCountRef = useRef(0);
+  const lastFrequencyUpdateRef = useRef(Date.now());
+
+  // 同步isPaused状态到ref
+  useEffect(() => {
+    isPausedRef.current = isPaused;
+  }, [isPaused]);
+
+  // 调整最大缓冲区后立即按新预算淘汰旧数据
+  useEffect(() => {
+    logStore.setMaxBytes(maxBufferSize);
+    setLogVersion(logStore.version());
+  }, [maxBufferSize]);
+
+  // 保存最大缓冲区设置到localStorage
+  useEffect(() => {
+    settings.save('max_buffer_size', maxBufferSize.toString());
+  }, [maxBufferSize]);
+
+  // 保存WebSocket URL到localStorage
+  useEffect(() => {
+    settings.save('ws_url', wsUrl);
+  }, [wsUrl]);
+
+  useEffect(() => {
+    settings.save('ws_options', JSON.stringify(wsOptions));
+  }, [wsOptions]);
+
+  useEffect(() => {
+    settings.save('tx_text_options', JSON.stringify(txOptions));
+  }, [txOptions]);
+
+  useEffect(() => {
+    settings.save('rx_line_ending', rxLineEnding);
+  }, [rxLineEnding]);
+
+  useEffect(() => {
+    settings.save('text_encoding', textEncoding);
+  }, [textEncoding]);
+
+  useEffect(() => {
+    settings.save('ansi_enabled', String(ansiEnabled));
+  }, [ansiEnabled]);
+
+  useEffect(() => {
+    settings.save('interactive_options', JSON.stringify(interactiveOptions));
+  }, [interactiveOptions]);
+
+  useEffect(() => {
+    triggersRef.current = triggers;
+    settings.save('auto_response_triggers', JSON.stringify(triggers));
+  }, [triggers]);
+
+  // 修改分帧设置时先输出旧设置下未完成的数据
+  useEffect(() => {
+    settings.save('rx_framing_options', JSON.stringify(framingOptions));
+    const framer = createFramer(framingOptions, (frame, timestamp) => {
+      const text = decoderRef.current.decode(frame, { stream: true });
+      addLog('rx', frame, text, undefined, timestamp);
+      runTriggers(frame, text);
+      scriptRunnerRef.current?.receive(text);
+      testRunRef.current?.receive(text);
+    });
+    framerRef.current = framer;
+    return () => framer.flush();
+  }, [framingOptions]);
+
+  // 切换编码后重建解码器，并按新编码重新解码缓冲区中的数据
+  useEffect(() => {
+    if (encodingRef.current === textEncoding) return;
+    encodingRef.current = textEncoding;
+    decoderRef.current = createTextDecoder(textEncoding);
+    sourceDecodersRef.current = {};
+    replaceLogs(store => {
+      // 接收数据按流连续解码，避免多字节字符在数据包边界处被截断
+      const streamDecoders: Record<string, TextDecoderLike> = {};
+      store.update(log => {
+        if ((log.type !== 'rx' && log.type !== 'tx') || log.summary) return log;
+        if (log.type === 'tx' && !log.source) return { ...log, text: uint8ArrayToString(log.data, textEncoding) };
+        const key = log.source || '';
+        const decoder = streamDecoders[key] || (streamDecoders[key] = createTextDecoder(textEncoding));
+        return { ...log, text: decoder.decode(log.data, { stream: true }) };
+      });
+    });
+  }, [textEncoding]);
+
+  useEffect(() => {
+    settings.save('virtual_device_config', JSON.stringify(virtualDeviceConfig));
+  }, [virtualDeviceConfig]);
+
+  useEffect(() => {
+    bridgeOptionsRef.current = bridgeOptions;
+    settings.save('bridge_options', JSON.stringify(bridgeOptions));
+  }, [bridgeOptions]);
+
+  // 持久化蓝牙配置
+  useEffect(() => {
+    settings.save('bluetooth_service_uuid', bluetoothServiceUUID);
+  }, [bluetoothServiceUUID]);
+
+  useEffect(() => {
+    settings.save('bluetooth_tx_characteristic_uuid', bluetoothTxCharacteristicUUID);
+  }, [bluetoothTxCharacteristicUUID]);
+
+  useEffect(() => {
+    settings.save('bluetooth_rx_characteristic_uuid', bluetoothRxCharacteristicUUID);
+  }, [bluetoothRxCharacteristicUUID]);
+
+  useEffect(() => {
+    settings.save('bluetooth_write_options', JSON.stringify(bluetoothWriteOptions));
+  }, [bluetoothWriteOptions]);
+
+  useEffect(() => {
+    settings.save('serial_port_filter', JSON.stringify(serialPortFilter));
+  }, [serialPortFilter]);
+
+  useEffect(() => {
+    settings.save('serial_auto_reconnect', String(serialAutoReconnect));
+  }, [serialAutoReconnect]);
+
+  // 刷新已授权串口列表：设备插拔或新授权（连接成功）后更新
+  useEffect(() => {
+    const refresh = () => {
+      getGrantedSerialPorts().then(ports => {
+        setGrantedSerialPorts(ports);
+        setSelectedSerialPort(prev => prev && ports.includes(prev) ? prev : null);
+      }).catch(() => {});
+    };
+    refresh();
+    return watchSerialPorts(refresh);
+  }, [isConnected]);
+
+  useEffect(() => {
+    if (isAutoScroll) {
+      terminalEndRef.current?.scrollIntoView({ behavior: 'auto' });
+    }
+  }, [logVersion, isAutoScroll, isActive, timelineSource]);
+
+  // 向外汇报日志和连接状态，用于合并时间线和标签页状态
+  useEffect(() => {
+    if (onLogsChange) onLogsChange(session.id, logStore);
+  }, [logVersion, onLogsChange, session.id]);
+
+  useEffect(() => {
+    onStatusChange(session.id, { isConnected, isPaused });
+  }, [isConnected, isPaused, onStatusChange, session.id]);
+
+  // 更新频率统计的定时器
+  useEffect(() => {
+    const frequencyTimer = setInterval(() => {
+      const now = Date.now();
+      const timeDiff = now - lastFrequencyUpdateRef.current;
+      
+      if (timeDiff >= 1000) { // 每秒更新一次
+        setLineFrequency(newlineCountRef.current);
+        newlineCountRef.current = 0; // 重置计数器
+        lastFrequencyUpdateRef.current = now;
+      }
+    }, 1000);
+
+    return () => clearInterval(frequencyTimer);
+  }, []);
+
+  // 合并一帧内到达的日志，一次性写入缓冲区并刷新界面
+  const flushLogs = useCallback(() => {
+    flushCancelRef.current = null;
+    const pending = pendingLogsRef.current;
+    if (pending.length === 0) return;
+    pendingLogsRef.current = [];
+    pending.forEach(logStore.append);
+    setLogVersion(logStore.version());
+  }, []);
+
+  const scheduleFlush = () => {
+    if (flushCancelRef.current) return;
+    // 页面不可见时 requestAnimationFrame 会暂停，改用定时器
+    if (document.hidden) {
+      const timer = setTimeout(flushLogs, 100);
+      flushCancelRef.current = () => clearTimeout(timer);
+    } else {
+      const frame = requestAnimationFrame(flushLogs);
+      flushCancelRef.current = () => cancelAnimationFrame(frame);
+    }
+  };
+
+  // 整体修改日志（清屏、重新解码）前先写入尚未合并的日志
+  const replaceLogs = useCallback((update: (store: LogStore) => void) => {
+    flushCancelRef.current?.();
+    flushLogs();
+    update(logStore);
+    setLogVersion(logStore.version());
+  }, []);
+
+  useEffect(() => () => flushCancelRef.current?.(), []);
+
+  const addLog = useCallback((type: LogEntry['type'], data: Uint8Array, newText: string, source?: string, timestamp = new Date(), summary?: boolean) => {
+    // 检查新文本中包含多少个\n，更新计数器
+    if (type === 'rx') {
+      const newlineCount = (newText.match(/\n/g) || []).length;
+      newlineCountRef.current += newlineCount;
+    }
+
+    pendingLogsRef.current.push({
+      id: Math.random().toString(36).substr(2, 9),
+      timestamp,
+      type,
+      data,
+      text: newText,
+      byteCount: data.length, // 记录实际字节数
+      source,
+      summary
+    });
+    scheduleFlush();
+  }, []);
+
+  // 记录文件传输、本地回显等数据，显示的文本是摘要而非数据本身
+  const addSummaryLog = useCallback((type: LogEntry['type'], data: Uint8Array, text: string) => {
+    addLog(type, data, text, undefined, undefined, true);
+  }, [addLog]);
+
+  // 接收数据匹配触发器后通过发送队列自动应答
+  const runTriggers = (data: Uint8Array, text: string) => {
+    const fires = triggerMatcher.feed(triggersRef.current, data, text);
+    if (fires.length === 0) return;
+    setTriggerCounts(triggerMatcher.getCounts());
+    fires.forEach(({ rule, reply }) => {
+      const send = () => {
+        sendDataRef.current?.(reply, rule.replyMode).catch(err => {
+          addLog('error', new Uint8Array(), `自动应答失败: ${err.message}`);
+        });
+      };
+      if (rule.delayMs <= 0) {
+        send();
+        return;
+      }
+      const timer = setTimeout(() => {
+        triggerTimersRef.current.delete(timer);
+        send();
+      }, rule.delayMs);
+      triggerTimersRef.current.add(timer);
+    });
+  };
+
+  const cancelTriggerReplies = () => {
+    triggerTimersRef.current.forEach(timer => clearTimeout(timer));
+    triggerTimersRef.current.clear();
+  };
+
+  const resetTriggerCounts = (id?: string) => {
+    triggerMatcher.reset(id);
+    setTriggerCounts(triggerMatcher.getCounts());
+  };
+
+  // 处理链路收到的数据
+  const handleData = (data: Uint8Array, source?: DataSource) => {
+    // 文件传输协议运行中，数据交给协议处理，不进入终端
+    if (modemQueueRef.current) {
+      modemQueueRef.current.push(data);
+      return;
+    }
+    if (source) {
+      setSourceCounters(prev => ({ ...prev, [source.label]: (prev[source.label] || 0) + data.length }));
+    }
+    // 使用ref检查暂停状态，确保获取最新值
+    if (isPausedRef.current) return;
+    if (!source) {
+      framerRef.current?.push(data);
+      return;
+    }
+    // 桥接转发的数据
+    if (!bridgeOptionsRef.current.logTraffic) return;
+    // 十六进制记录不随编码重新解码
+    if (bridgeOptionsRef.current.hexLog) {
+      addLog(source.direction, data, uint8ArrayToHex(data) + ' ', source.label, undefined, true);
+      return;
+    }
+    const decoder = sourceDecodersRef.current[source.label] || (sourceDecodersRef.current[source.label] = createTextDecoder(encodingRef.current));
+    addLog(source.direction, data, decoder.decode(data, { stream: true }), source.label);
+  };
+
+  // 打开链路，失败时按链路能力决定是否重连
+  const openTransport = async (transport: Transport) => {
+    decoderRef.current = createTextDecoder(encodingRef.current);
+    sourceDecodersRef.current = {};
+    framerRef.current?.reset();
+    try {
+      await transport.open();
+      // 连接过程中用户已主动断开
+      if (transportRef.current !== transport) {
+        await transport.close();
+        return;
+      }
+      setOutputSignals({ dataTerminalReady: true, requestToSend: true });
+      setIsConnected(true);
+      stopReconnecting();
+    } catch (err: any) {
+      if (transportRef.current !== transport) return;
+      if (transport.capabilities.autoReconnect && shouldReconnectRef.current) {
+        scheduleReconnect(transport, `连接失败: ${err.message}`);
+      } else {
+        addLog('error', new Uint8Array(), `${transport.name} 连接失败: ${err.message}`);
+        transportRef.current = null;
+        stopReconnecting();
+      }
+    }
+  };
+
+  const stopReconnecting = () => {
+    reconnectAttemptRef.current = 0;
+    setIsReconnecting(false);
+    setReconnectInfo(null);
+  };
+
+  // 按链路的重连策略安排下一次重连，超过最大次数后放弃
+  const scheduleReconnect = (transport: Transport, reason: string) => {
+    const policy = transport.reconnectPolicy || DEFAULT_RECONNECT_POLICY;
+    const attempt = reconnectAttemptRef.current + 1;
+    if (policy.maxAttempts > 0 && attempt > policy.maxAttempts) {
+      addLog('error', new Uint8Array(), `${transport.name} ${reason}，已重连 ${policy.maxAttempts} 次仍未成功，停止重连`);
+      transportRef.current = null;
+      stopReconnecting();
+      return;
+    }
+    reconnectAttemptRef.current = attempt;
+    const delay = getReconnectDelay(policy, attempt);
+    setIsReconnecting(true);
+    setReconnectInfo({ attempt, maxAttempts: policy.maxAttempts, nextRetryAt: Date.now() + delay });
+    addLog('info', new Uint8Array(), `${transport.name} ${reason}，${(delay / 1000).toFixed(1)} 秒后第 ${attempt} 次重连...`);
+    reconnectTimerRef.current = setTimeout(() => {
+      reconnectTimerRef.current = null;
+      if (transportRef.current === transport && shouldReconnectRef.current) {
+        openTransport(transport);
+      }
+    }, delay);
+  };
+
+  // 链路意外断开
+  const handleTransportClose = (transport: Transport, error?: Error) => {
+    if (transportRef.current !== transport) return;
+    framerRef.current?.flush();
+    cancelTriggerReplies();
+    setIsConnected(false);
+    setIsPaused(false);
+    const reason = `连接已断开${error ? `: ${error.message}` : ''}`;
+    if (transport.capabilities.autoReconnect && shouldReconnectRef.current) {
+      scheduleReconnect(transport, reason);
+    } else {
+      addLog('info', new Uint8Array(), `${transport.name} ${reason}`);
+      transportRef.current = null;
+    }
+  };
+
+  const disconnect = async () => {
+    // 用户主动关闭，禁止自动重连
+    shouldReconnectRef.current = false;
+    stopReconnecting();
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    const transport = transportRef.current;
+    transportRef.current = null;
+    cancelTriggerReplies();
+    stopScript();
+    testRunRef.current?.cancel();
+    setIsConnected(false);
+    setIsPaused(false);
+    if (transport) {
+      await transport.close();
+      framerRef.current?.flush();
+      addLog('info', new Uint8Array(), `${transport.name} 已关闭`);
+    }
+  };
+
+  // 关闭会话时断开链路
+  useEffect(() => {
+    return () => {
+      shouldReconnectRef.current = false;
+      if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+      cancelTriggerReplies();
+      scriptRunnerRef.current?.stop();
+      testRunRef.current?.cancel();
+      const transport = transportRef.current;
+      transportRef.current = null;
+      if (transport) transport.close();
+    };
+  }, []);
+
+  const connect = async () => {
+    const transport = createTransport(commMode, {
+      serialConfig: config,
+      serialPort: { port: selectedSerialPort, filter: serialPortFilter, autoReconnect: serialAutoReconnect },
+      wsUrl,
+      wsOptions,
+      bluetooth: {
+        serviceUUID: bluetoothServiceUUID,
+        txCharacteristicUUID: bluetoothTxCharacteristicUUID,
+        rxCharacteristicUUID: bluetoothRxCharacteristicUUID
+      },
+      bluetoothDevice,
+      bluetoothWrite: bluetoothWriteOptions,
+      virtualDevice: virtualDeviceConfig,
+      encoding: textEncoding,
+      log: (type, text) => addLog(type, new Uint8Array(), text)
+    });
+    transport.onData(handleData);
+    transport.onClose((error) => handleTransportClose(transport, error));
+    transportRef.current = transport;
+    setSourceCounters({});
+    // 触发器的最多触发次数按每次连接计算
+    resetTriggerCounts();
+    // 重置重连标志，允许自动重连
+    shouldReconnectRef.current = true;
+    reconnectAttemptRef.current = 0;
+    await openTransport(transport);
+  };
+
+  // 扫描蓝牙设备并列出其服务和特征
+  const discoverBluetooth = async () => {
+    setIsDiscovering(true);
+    try {
+      const { device, services } = await discoverGattServices([bluetoothServiceUUID]);
+      setBluetoothDevice(device);
+      setGattServices(services);
+      addLog('info', new Uint8Array(), `已发现 ${device.name || '未知设备'} 的 ${services.length} 个服务`);
+    } catch (err: any) {
+      // 用户取消选择时不记录错误
+      if (err.name !== 'NotFoundError') {
+        addLog('error', new Uint8Array(), `蓝牙服务发现失败: ${err.message}`);
+      }
+    } finally {
+      setIsDiscovering(false);
+    }
+  };
+
+  const forgetBluetoothDevice = () => {
+    setBluetoothDevice(null);
+    setGattServices([]);
+  };
+
+  const sendData = async (input: string, mode: DisplayMode) => {
+    // 如果暂停状态，不允许发送数据
+    if (isPaused) {
+      addLog('error', new Uint8Array(), '发送失败: 已暂停');
+      return;
+    }
+
+    let data: Uint8Array;
+    if (mode === DisplayMode.Hex) {
+      data = hexToUint8Array(input);
+    } else {
+      const text = input + lineEndingText[txOptions.lineEnding];
+      data = txOptions.parseEscapes ? parseEscapes(text, textEncoding) : stringToUint8Array(text, textEncoding);
+    }
+    // 将数据解码为文本，确保log.text始终是文本格式
+    const textToSend = uint8ArrayToString(data, textEncoding);
+    // 先添加发送日志，确保在回环数据之前显示
+    addLog('tx', data, textToSend);
+    
+    // 添加到发送队列，包含mode信息
+    sendQueueRef.current.push({ data, text: textToSend, mode });
+    
+    // 触发队列处理
+    processSendQueue();
+  };
+  sendDataRef.current = sendData;
+
+  // 脚本和测试发送的文本按当前编码原样发送，不追加结尾、不解析转义
+  scriptHostRef.current = {
+    send: (data) => {
+      if (!transportRef.current || !isConnected) throw new Error('未连接');
+      if (isPaused) throw new Error('已暂停');
+      const bytes = typeof data === 'string' ? stringToUint8Array(data, textEncoding) : data;
+      const text = uint8ArrayToString(bytes, textEncoding);
+      addLog('tx', bytes, text);
+      sendQueueRef.current.push({ data: bytes, text, mode: typeof data === 'string' ? DisplayMode.Text : DisplayMode.Hex });
+      processSendQueue();
+    },
+    setSignals: async (signals) => {
+      const transport = transportRef.current;
+      if (!transport || !transport.setSignals) throw new Error('当前链路不支持控制信号');
+      await transport.setSignals(signals);
+      const { break: _, ...outputs } = signals;
+      setOutputSignals(prev => ({ ...prev, ...outputs }));
+      Object.entries(signals).forEach(([key, value]) => {
+        addLog('info', new Uint8Array(), `${signalLabels[key]} ${value ? '有效' : '无效'}`);
+      });
+    }
+  };
+
+  const startScript = (script: UserScript) => {
+    scriptRunnerRef.current?.stop();
+    addLog('info', new Uint8Array(), `脚本「${script.name}」开始运行`);
+    const runner = runScript(script.code, {
+      send: (data) => scriptHostRef.current!.send(data),
+      setSignals: (signals) => scriptHostRef.current!.setSignals(signals),
+      log: (text) => addLog('info', new Uint8Array(), `[${script.name}] ${text}`)
+    }, (error) => {
+      if (scriptRunnerRef.current !== runner) return;
+      scriptRunnerRef.current = null;
+      setRunningScriptId(null);
+      if (error) addLog('error', new Uint8Array(), `脚本「${script.name}」出错: ${error}`);
+      else addLog('info', new Uint8Array(), `脚本「${script.name}」运行完毕`);
+    });
+    scriptRunnerRef.current = runner;
+    setRunningScriptId(script.id);
+  };
+
+  const stopScript = () => {
+    const runner = scriptRunnerRef.current;
+    if (!runner) return;
+    runner.stop();
+    scriptRunnerRef.current = null;
+    setRunningScriptId(null);
+    addLog('info', new Uint8Array(), '脚本已停止');
+  };
+
+  const startTests = () => {
+    const cases = testCases.filter(testCase => testCase.enabled);
+    if (cases.length === 0) return;
+    testRunRef.current?.cancel();
+    addLog('info', new Uint8Array(), `开始运行测试 (${cases.length} 个用例)`);
+    testRunRef.current = runTests(cases, { send: (data) => scriptHostRef.current!.send(data) }, textEncoding, (report) => {
+      setTestReport(report);
+      if (!report.finished) return;
+      const counts = countResults(report);
+      const summary = `测试${report.cancelled ? '已取消' : '完成'}: 通过 ${counts.passed}，失败 ${counts.failed}${counts.skipped > 0 ? `，跳过 ${counts.skipped}` : ''}`;
+      addLog(counts.failed > 0 ? 'error' : 'info', new Uint8Array(), summary);
+    });
+  };
+
+  // 交互模式按键直接进入发送队列，不记录发送日志；开启本地回显时以发送日志显示输入内容
+  const sendKeystrokes = (data: Uint8Array, echo = true) => {
+    if (!isConnected || isPaused) return;
+    if (echo && interactiveOptions.localEcho) {
+      const echoText = localEchoText(data, textEncoding);
+      if (echoText) addSummaryLog('tx', data, echoText);
+    }
+    sendQueueRef.current.push({ data, text: '', mode: DisplayMode.Hex });
+    processSendQueue();
+  };
+
+  const handleTerminalKeyDown = (e: React.KeyboardEvent) => {
+    // 保留粘贴快捷键，以及选中文本时的复制
+    const key = e.key.toLowerCase();
+    if ((e.ctrlKey || e.metaKey) && key === 'v') return;
+    if ((e.ctrlKey || e.metaKey) && key === 'c' && window.getSelection()?.toString()) return;
+    const data = keyToBytes(e, interactiveOptions, textEncoding);
+    if (!data) return;
+    e.preventDefault();
+    sendKeystrokes(data);
+  };
+
+  // 粘贴内容按设置分块发送，避免设备接收 FIFO 溢出
+  const handleTerminalPaste = async (text: string) => {
+    const transport = transportRef.current;
+    if (!transport || !isConnected || isPaused) return;
+    const data = stringToUint8Array(text.replace(/\r\n|\r|\n/g, enterText(interactiveOptions.enter)), textEncoding);
+    if (data.length === 0) return;
+    if (interactiveOptions.localEcho) addSummaryLog('tx', data, localEchoText(data, textEncoding));
+    const chunkSize = interactiveOptions.pasteChunkSize > 0 ? interactiveOptions.pasteChunkSize : data.length;
+    for (let offset = 0; offset < data.length; offset += chunkSize) {
+      if (transportRef.current !== transport) return;
+      sendKeystrokes(data.subarray(offset, offset + chunkSize), false);
+      if (offset + chunkSize < data.length) {
+        await new Promise(resolve => setTimeout(resolve, interactiveOptions.pasteDelayMs));
+      }
+    }
+  };
+
+  const exportLogs = (format: 'txt' | 'bin') => {
+    if (logStore.size() === 0) return;
+    let blob: Blob;
+    let filename = `serial_log_${new Date().getTime()}`;
+
+    // 只导出RX和TX数据，不包含系统日志信息
+    const content = logStore.query({ types: ['rx', 'tx'] }).map(l => l.text).join('');
+    blob = new Blob([content], { type: 'text/plain' });
+    filename += format === 'txt' ? '.txt' : '.bin';
+
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // 一键复制功能
+  const copyLogs = () => {
+    if (logStore.size() === 0) return;
+    
+    // 只复制RX和TX数据，不包含系统日志信息
+    const content = logStore.query({ types: ['rx', 'tx'] }).map(l => l.text).join('');
+    
+    navigator.clipboard.writeText(content).then(() => {
+      console.log('日志已复制到剪贴板');
+    }).catch(err => {
+      console.error('复制失败:', err);
+      // 降级方案：使用传统的复制方法
+      const textArea = document.createElement('textarea');
+      textArea.value = content;
+      textArea.style.position = 'fixed';
+      textArea.style.left = '-999999px';
+      textArea.style.top = '-999999px';
+      document.body.appendChild(textArea);
+      textArea.focus();
+      textArea.select();
+      try {
+        document.execCommand('copy');
+        console.log('日志已复制到剪贴板（降级方案）');
+      } catch (err) {
+        console.error('复制失败（降级方案）:', err);
+      }
+      document.body.removeChild(textArea);
+    });
+  };
+
+  // 向当前连接写入原始字节（协议传输使用）
+  const writeBytes = async (data: Uint8Array) => {
+    if (!transportRef.current) throw new Error('未连接');
+    await transportRef.current.write(data);
+  };
+
+  // XModem/YModem 发送：传输期间接收数据交给协议状态机
+  const sendFileModem = async (file: File, options: FileSendOptions) => {
+    const name = protocolNames[options.mode];
+    const data = new Uint8Array(await file.arrayBuffer());
+    addSummaryLog('tx', data, `文件: ${file.name} (${data.length} 字节)`);
+    addLog('info', new Uint8Array(), `${name} 开始发送文件: ${file.name} (${data.length} 字节)`);
+
+    const queue = createByteQueue();
+    modemQueueRef.current = queue;
+    try {
+      const io = { write: writeBytes, queue };
+      const modemOptions = {
+        onProgress: options.onProgress,
+        onLog: (text: string) => addLog('info', new Uint8Array(), `${name}: ${text}`),
+        signal: options.signal,
+        maxRetries: options.maxRetries,
+        timeoutMs: options.timeoutMs
+      };
+      if (options.mode === FileSendMode.YModem) {
+        await ymodemSend(file.name, data, io, modemOptions);
+      } else {
+        await xmodemSend(data, io, xmodemVariants[options.mode], modemOptions);
+      }
+      addLog('info', new Uint8Array(), `${name} 文件发送完毕`);
+    } catch (err: any) {
+      addLog('error', new Uint8Array(), `文件发送中断: ${err.message}`);
+    } finally {
+      modemQueueRef.current = null;
+    }
+  };
+
+  // 将接收到的文件保存为浏览器下载
+  const downloadFile = (data: Uint8Array, fileName: string) => {
+    const blob = new Blob([data], { type: 'application/octet-stream' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // XModem/YModem 接收文件：传输期间接收数据不进入终端
+  const handleFileReceive = async (options: FileReceiveOptions) => {
+    if (isPaused) {
+      addLog('error', new Uint8Array(), '文件接收失败: 已暂停');
+      return;
+    }
+
+    const name = protocolNames[options.mode];
+    addLog('info', new Uint8Array(), `${name} 开始接收文件`);
+
+    const queue = createByteQueue();
+    modemQueueRef.current = queue;
+    try {
+      const io = { write: writeBytes, queue };
+      const modemOptions = {
+        onProgress: options.onProgress,
+        onLog: (text: string) => addLog('info', new Uint8Array(), `${name}: ${text}`),
+        signal: options.signal,
+        maxRetries: options.maxRetries,
+        timeoutMs: options.timeoutMs
+      };
+      let files: ReceivedFile[];
+      if (options.mode === FileSendMode.YModem) {
+        files = await ymodemReceive(io, modemOptions);
+      } else {
+        const data = await xmodemReceive(io, xmodemVariants[options.mode], modemOptions);
+        files = [{ fileName: `xmodem_${new Date().getTime()}.bin`, data }];
+      }
+      for (const file of files) {
+        addSummaryLog('rx', file.data, `文件: ${file.fileName} (${file.data.length} 字节)`);
+        downloadFile(file.data, file.fileName);
+      }
+      addLog('info', new Uint8Array(), `${name} 文件接收完毕，共 ${files.length} 个文件`);
+    } catch (err: any) {
+      addLog('error', new Uint8Array(), `文件接收中断: ${err.message}`);
+    } finally {
+      modemQueueRef.current = null;
+    }
+  };
+
+  // 处理文件流发送
+  const handleFileSend = async (file: File, options: FileSendOptions) => {
+    // 如果暂停状态，不允许发送文件
+    if (isPaused) {
+      addLog('error', new Uint8Array(), '文件发送失败: 已暂停');
+      return;
+    }
+
+    if (options.mode !== FileSendMode.Raw) {
+      await sendFileModem(file, options);
+      return;
+    }
+
+    const transport = transportRef.current;
+    if (!transport) {
+      addLog('error', new Uint8Array(), '文件发送失败: 未连接');
+      return;
+    }
+
+    try {
+      const arrayBuffer = await file.arrayBuffer();
+      const data = new Uint8Array(arrayBuffer);
+      const total = data.length;
+
+      // 添加文件发送的TX日志，用于计数
+      addSummaryLog('tx', data, `文件: ${file.name} (${total} 字节)`);
+      addLog('info', new Uint8Array(), `开始发送文件: ${file.name} (${total} 字节)`);
+
+      let sent = 0;
+      while (sent < total) {
+        // 检查是否在发送过程中被暂停
+        if (isPaused) {
+          addLog('error', new Uint8Array(), '文件发送中断: 已暂停');
+          break;
+        }
+        if (options.signal?.aborted) {
+          addLog('error', new Uint8Array(), '文件发送中断: 已取消');
+          break;
+        }
+
+        const chunk = data.slice(sent, sent + options.throttleBytes);
+        await transport.write(chunk);
+        sent += chunk.length;
+        options.onProgress(Math.round((sent / total) * 100));
+
+        if (options.throttleMs > 0 && sent < total) {
+          await new Promise(resolve => setTimeout(resolve, options.throttleMs));
+        }
+      }
+
+      if (!isPaused && !options.signal?.aborted) {
+        addLog('info', new Uint8Array(), '文件发送完毕');
+      }
+    } catch (err: any) {
+      addLog('error', new Uint8Array(), `文件发送中断: ${err.message}`);
+    }
+  };
+
+  // 发送队列处理函数
+  const processSendQueue = useCallback(async () => {
+    if (isSendingRef.current || sendQueueRef.current.length === 0) {
+      return;
+    }
+
+    isSendingRef.current = true;
+
+    while (sendQueueRef.current.length > 0) {
+      const item = sendQueueRef.current.shift();
+      if (!item) break;
+
+      try {
+        const transport = transportRef.current;
+        if (transport) {
+          // 支持文本帧的链路在Text模式下直接发送文本字符串
+          const text = transport.capabilities.textFrames && item.mode === DisplayMode.Text ? item.text : undefined;
+          await transport.write(item.data, text);
+        }
+      } catch (err: any) {
+        addLog('error', new Uint8Array(), `发送失败: ${err.message}`);
+      }
+    }
+
+    isSendingRef.current = false;
+  }, [addLog]);
+
+
+  // 轮询输入控制信号，变化时记录日志
+  useEffect(() => {
+    const transport = transportRef.current;
+    if (!isConnected || !transport || !transport.getSignals) {
+      setInputSignals(null);
+      return;
+    }
+
+    let previous: SerialInputSignals | null = null;
+    let isPolling = false;
+    const timer = setInterval(async () => {
+      if (isPolling) return;
+      isPolling = true;
+      try {
+        const signals = await transport.getSignals!();
+        const changed = (Object.keys(signals) as (keyof SerialInputSignals)[]).filter(key => !previous || previous[key] !== signals[key]);
+        if (changed.length > 0) {
+          if (previous) {
+            changed.forEach(key => addLog('info', new Uint8Array(), `${signalLabels[key]} ${signals[key] ? '有效' : '无效'}`));
+          }
+          previous = signals;
+          setInputSignals(signals);
+        }
+      } catch (e) {
+        // 设备断开时读取失败，由链路的断开事件处理
+      } finally {
+        isPolling = false;
+      }
+    }, 100);
+
+    return () => clearInterval(timer);
+  }, [isConnected, addLog]);
+
+  const changeOutputSignal = async (name: 'dataTerminalReady' | 'requestToSend', value: boolean) => {
+    const transport = transportRef.current;
+    if (!transport || !transport.setSignals) return;
+    try {
+      await transport.setSignals({ [name]: value });
+      setOutputSignals(prev => ({ ...prev, [name]: value }));
+      addLog('info', new Uint8Array(), `${signalLabels[name]} ${value ? '有效' : '无效'}`);
+    } catch (err: any) {
+      addLog('error', new Uint8Array(), `设置 ${signalLabels[name]} 失败: ${err.message}`);
+    }
+  };
+
+  const sendBreak = async (durationMs: number) => {
+    const transport = transportRef.current;
+    if (!transport || !transport.setSignals) return;
+    try {
+      await transport.setSignals({ break: true });
+      addLog('info', new Uint8Array(), `BREAK 有效 (${durationMs} ms)`);
+      await new Promise(resolve => setTimeout(resolve, durationMs));
+      await transport.setSignals({ break: false });
+      addLog('info', new Uint8Array(), 'BREAK 无效');
+    } catch (err: any) {
+      addLog('error', new Uint8Array(), `发送 BREAK 失败: ${err.message}`);
+    }
+  };
+
+  // 切换暂停状态
+  const togglePause = () => {
+    if (!isConnected) return;
+    
+    const newPausedState = !isPaused;
+    setIsPaused(newPausedState);
+    
+    if (newPausedState) {
+      addLog('info', new Uint8Array(), '串口数据已暂停');
+    } else {
+      addLog('info', new Uint8Array(), '串口数据已恢复');
+    }
+  };
+
+  // 格式化缓冲区大小显示
+  const formatBufferSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const logStats = logStore.stats();
+  const currentBufferSize = logStats.bufferBytes;
+
+  // 处理分割条拖拽
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    setIsDragging(true);
+    document.body.style.cursor = 'row-resize';
+    document.body.style.userSelect = 'none';
+  };
+
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const mainElement = mainRef.current;
+      if (!mainElement) return;
+      
+      const rect = mainElement.getBoundingClientRect();
+      const headerHeight = rect.top + 56; // header height approximately
+      const footerHeight = 80; // sender minimum height
+      const totalHeight = window.innerHeight - headerHeight - footerHeight;
+      
+      // 计算新的分割位置（限制在10%-90%之间）
+      const relativeY = e.clientY - headerHeight;
+      const newPercent = Math.max(10, Math.min(90, (relativeY / (window.innerHeight - headerHeight - footerHeight)) * 100));
+      setSplitPosition(newPercent);
+    };
+
+    const handleMouseUp = () => {
+      setIsDragging(false);
+      document.body.style.cursor = '';
+      document.body.style.userSelect = '';
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isDragging]);
+
+  return (
+    <div className={`${isActive ? 'flex' : 'hidden'} h-screen bg-gray-50 overflow-hidden text-gray-800`}>
+      <Sidebar 
+        config={config} setConfig={setConfig} isConnected={isConnected} 
+        isAutoLineBreak={isAutoLineBreak} setIsAutoLineBreak={setIsAutoLineBreak}
+        rxLineEnding={rxLineEnding} setRxLineEnding={setRxLineEnding}
+        textEncoding={textEncoding} setTextEncoding={setTextEncoding}
+        ansiEnabled={ansiEnabled} setAnsiEnabled={setAnsiEnabled}
+        interactiveOptions={interactiveOptions} setInteractiveOptions={setInteractiveOptions}
+        framingOptions={framingOptions} setFramingOptions={setFramingOptions}
+        triggers={triggers} setTriggers={setTriggers}
+        triggerCounts={triggerCounts} onResetTriggerCounts={resetTriggerCounts}
+        isAutoScroll={isAutoScroll} setIsAutoScroll={setIsAutoScroll}
+        maxBufferSize={maxBufferSize} setMaxBufferSize={setMaxBufferSize}
+        currentBufferSize={currentBufferSize}
+        commMode={commMode} setCommMode={setCommMode}
+        wsUrl={wsUrl} setWsUrl={setWsUrl}
+        wsOptions={wsOptions} setWsOptions={setWsOptions}
+        bluetoothServiceUUID={bluetoothServiceUUID} setBluetoothServiceUUID={setBluetoothServiceUUID}
+        bluetoothTxCharacteristicUUID={bluetoothTxCharacteristicUUID} setBluetoothTxCharacteristicUUID={setBluetoothTxCharacteristicUUID}
+        bluetoothRxCharacteristicUUID={bluetoothRxCharacteristicUUID} setBluetoothRxCharacteristicUUID={setBluetoothRxCharacteristicUUID}
+        bluetoothWriteOptions={bluetoothWriteOptions} setBluetoothWriteOptions={setBluetoothWriteOptions}
+        bluetoothDeviceName={bluetoothDevice ? (bluetoothDevice.name || '未知设备') : null}
+        gattServices={gattServices} isDiscovering={isDiscovering}
+        onDiscoverBluetooth={discoverBluetooth} onForgetBluetoothDevice={forgetBluetoothDevice}
+        virtualDeviceConfig={virtualDeviceConfig} setVirtualDeviceConfig={setVirtualDeviceConfig}
+        bridgeOptions={bridgeOptions} setBridgeOptions={setBridgeOptions}
+        grantedSerialPorts={grantedSerialPorts}
+        selectedSerialPort={selectedSerialPort} setSelectedSerialPort={setSelectedSerialPort}
+        serialPortFilter={serialPortFilter} setSerialPortFilter={setSerialPortFilter}
+        serialAutoReconnect={serialAutoReconnect} setSerialAutoReconnect={setSerialAutoReconnect}
+        modemSignalsEnabled={isConnected && !!transportRef.current?.capabilities.modemSignals}
+        outputSignals={outputSignals} inputSignals={inputSignals}
+        onOutputSignalChange={changeOutputSignal} onSendBreak={sendBreak}
+        onConnect={connect} onDisconnect={disconnect} 
+        isReconnecting={isReconnecting}
+        reconnectInfo={reconnectInfo}
+      />
+
+      <main ref={mainRef} className="flex-1 flex flex-col min-w-0 bg-white">
+        <header className="bg-white border-b px-6 py-3 flex items-center justify-between shadow-sm z-10">
+          <div className="flex items-center space-x-4">
+            <h1 className="text-xl font-bold text-blue-600 flex items-center">
+              <i className="fas fa-microchip mr-2"></i>
+              Web Serial Tool
+            </h1>
+            <div className={`px-2 py-0.5 rounded text-[10px] font-bold ${isConnected ? 'bg-green-500 text-white' : 'bg-gray-400 text-white'}`}>
+              {isConnected ? '已连接' : '未连接'}
+            </div>
+            {isConnected && (
+              <div className={`px-2 py-0.5 rounded text-[10px] font-bold ${isPaused ? 'bg-orange-500 text-white' : 'bg-blue-500 text-white'}`}>
+                {isPaused ? '已暂停' : '运行中'}
+              </div>
+            )}
+            <div className={`px-2 py-0.5 rounded text-[10px] font-bold ${currentBufferSize > maxBufferSize * 0.8 ? 'bg-red-500 text-white' : 'bg-gray-500 text-white'}`}>
+              缓冲区: {formatBufferSize(currentBufferSize)}/{formatBufferSize(maxBufferSize)}
+            </div>
+          </div>
+          
+          <div className="flex items-center space-x-3">
+            <div className="bg-gray-100 p-1 rounded-lg flex border border-gray-200">
+              <button onClick={() => setDisplayMode(DisplayMode.Text)} className={`px-3 py-1 text-xs rounded-md transition-colors ${displayMode === DisplayMode.Text ? 'bg-white shadow-sm text-blue-600 font-bold' : 'text-gray-500'}`}>文本</button>
+              <button onClick={() => setDisplayMode(DisplayMode.Hex)} className={`px-3 py-1 text-xs rounded-md transition-colors ${displayMode === DisplayMode.Hex ? 'bg-white shadow-sm text-blue-600 font-bold' : 'text-gray-500'}`}>HEX</button>
+            </div>
+            
+            <div className="flex bg-white border rounded-md overflow-hidden shadow-sm">
+              <button onClick={() => exportLogs('txt')} className="px-3 py-1.5 text-xs text-gray-600 hover:bg-gray-50 border-r border-gray-100">
+                <i className="fas fa-file-alt mr-1"></i> 导出 TXT
+              </button>
+              <button onClick={() => exportLogs('bin')} className="px-3 py-1.5 text-xs text-gray-600 hover:bg-gray-50">
+                <i className="fas fa-file-code mr-1"></i> 导出 BIN
+              </button>
+            </div>
+            
+            {/* 一键复制按钮 */}
+            <button 
+              onClick={copyLogs}
+              disabled={logStore.size() === 0}
+              className="px-4 py-1.5 bg-blue-500 hover:bg-blue-600 text-white border border-blue-600 rounded-md text-xs transition-colors shadow-sm disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              <i className="fas fa-copy mr-1"></i> 复制
+            </button>
+            
+            {/* 暂停按钮 */}
+            <button 
+              onClick={togglePause}
+              disabled={!isConnected}
+              className={`px-4 py-1.5 border rounded-md text-xs transition-colors shadow-sm ${
+                isPaused 
+                  ? 'bg-orange-500 hover:bg-orange-600 text-white border-orange-600' 
+                  : 'bg-white hover:bg-gray-50 text-gray-700 border-gray-300'
+              } disabled:opacity-30 disabled:cursor-not-allowed`}
+            >
+              <i className={`fas ${isPaused ? 'fa-play' : 'fa-pause'} mr-1`}></i>
+              {isPaused ? '恢复' : '暂停'}
+            </button>
+            
+            <button onClick={() => replaceLogs(store => store.clear())} className="px-4 py-1.5 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-md text-xs transition-colors shadow-sm">
+              清屏
+            </button>
+          </div>
+        </header>
+
+        {tabs}
+
+        <div className="flex-1 overflow-hidden flex flex-col" style={{ height: `${splitPosition}%` }}>
+          <div className="flex-1 overflow-hidden p-2 flex flex-col">
+            {timelineSource ? (
+              <Timeline source={timelineSource} displayMode={displayMode} autoScroll={isAutoScroll} terminalEndRef={terminalEndRef} />
+            ) : (
+              <Terminal 
+                logStore={logStore}
+                logVersion={logVersion}
+                displayMode={displayMode} 
+                isAutoLineBreak={isAutoLineBreak}
+                lineEnding={rxLineEnding}
+                encoding={textEncoding}
+                ansiEnabled={ansiEnabled}
+                interactive={interactiveOptions.enabled}
+                onKeyDown={handleTerminalKeyDown}
+                onPaste={handleTerminalPaste}
+                terminalEndRef={terminalEndRef}
+                aiAnalysis={null}
+                onCloseAi={() => {}}
+                lineFrequency={lineFrequency}
+                rxBytes={logStats.rxBytes}
+                txBytes={logStats.txBytes}
+                autoScroll={isAutoScroll}
+                sourceCounters={sourceCounters}
+                highlightRules={highlightRules}
+                setHighlightRules={setHighlightRules}
+              />
+            )}
+          </div>
+        </div>
+
+        {/* 分割条 */}
+        <div 
+          className="h-1 bg-gray-200 hover:bg-blue-400 cursor-row-resize transition-colors flex items-center justify-center"
+          onMouseDown={handleMouseDown}
+        ></div>
+        
+
+        <div className="bg-white shadow-sm m-2 mb-2 flex flex-col" style={{ height: `${100 - splitPosition}%`, minHeight: '80px' }}>
+          <div className="flex space-x-1 mb-2 shrink-0 text-[11px]">
+            <button onClick={() => setBottomTab('send')} className={`px-3 py-0.5 rounded ${bottomTab === 'send' ? 'bg-blue-50 text-blue-600 font-bold' : 'text-gray-500 hover:bg-gray-50'}`}>
+              <i className="fas fa-paper-plane mr-1"></i>发送
+            </button>
+            <button onClick={() => setBottomTab('script')} className={`px-3 py-0.5 rounded ${bottomTab === 'script' ? 'bg-blue-50 text-blue-600 font-bold' : 'text-gray-500 hover:bg-gray-50'}`}>
+              <i className={`fas ${runningScriptId ? 'fa-circle-notch fa-spin text-green-600' : 'fa-code'} mr-1`}></i>脚本
+            </button>
+            <button onClick={() => setBottomTab('test')} className={`px-3 py-0.5 rounded ${bottomTab === 'test' ? 'bg-blue-50 text-blue-600 font-bold' : 'text-gray-500 hover:bg-gray-50'}`}>
+              <i className={`fas ${testReport && !testReport.finished ? 'fa-circle-notch fa-spin text-green-600' : 'fa-list-check'} mr-1`}></i>测试
+            </button>
+          </div>
+          {/* 切换标签时保留发送区状态（如文件传输进度） */}
+          <div className={`flex-1 min-h-0 ${bottomTab === 'send' ? '' : 'hidden'}`}>
+            <Sender onSend={sendData} textOptions={txOptions} setTextOptions={setTxOptions} encoding={textEncoding} settings={settings} onFileSend={handleFileSend} onFileReceive={handleFileReceive} isConnected={isConnected && !isPaused} isReconnecting={isReconnecting} />
+          </div>
+          <div className={`flex-1 min-h-0 ${bottomTab === 'script' ? '' : 'hidden'}`}>
+            <ScriptPanel scripts={scripts} onUpdate={setScripts} runningId={runningScriptId} onRun={startScript} onStop={stopScript} isConnected={isConnected && !isPaused} />
+          </div>
+          <div className={`flex-1 min-h-0 ${bottomTab === 'test' ? '' : 'hidden'}`}>
+            <TestPanel testCases={testCases} onUpdate={setTestCases} report={testReport} suiteName={session.name} onRun={startTests} onCancel={() => testRunRef.current?.cancel()} isConnected={isConnected && !isPaused} />
+          </div>
+        </div>
+      </main>
+
+      <QuickSendList items={quickSendItems} onUpdate={setQuickSendItems} onSend={sendData} textOptions={txOptions} isConnected={isConnected && !isPaused} isReconnecting={isReconnecting} />
+    </div>
+  );
+};
+
+export default Session;
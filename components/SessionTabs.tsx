@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { SessionInfo } from '../types';
+
+interface SessionTabsProps {
+  sessions: SessionInfo[];
+  activeId: string;
+  statuses: Record<string, { isConnected: boolean, isPaused: boolean }>;
+  isMerged: boolean;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onClose: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onToggleMerged: () => void;
+}
+
+const SessionTabs: React.FC<SessionTabsProps> = ({ sessions, activeId, statuses, isMerged, onSelect, onAdd, onClose, onRename, onToggleMerged }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const startRename = (session: SessionInfo) => {
+    setEditingId(session.id);
+    setEditingName(session.name);
+  };
+
+  const finishRename = () => {
+    if (editingId && editingName.trim()) onRename(editingId, editingName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="flex items-center gap-1 px-2 pt-2 border-b bg-gray-50">
+      <div className="flex items-end gap-1 flex-1 min-w-0 overflow-x-auto">
+        {sessions.map(session => {
+          const status = statuses[session.id];
+          const active = session.id === activeId;
+          return (
+            <div
+              key={session.id}
+              onClick={() => onSelect(session.id)}
+              onDoubleClick={() => startRename(session)}
+              className={`group flex items-center px-3 py-1.5 text-xs rounded-t-md border border-b-0 cursor-pointer select-none shrink-0 ${
+                active ? 'bg-white text-gray-800 font-bold' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+              }`}
+              style={{ borderTop: `3px solid ${session.color}` }}
+              title="双击重命名"
+            >
+              <i className={`fas fa-circle text-[6px] mr-2 ${status?.isConnected ? (status.isPaused ? 'text-orange-500' : 'text-green-500') : 'text-gray-300'}`}></i>
+              {editingId === session.id ? (
+                <input
+                  autoFocus
+                  value={editingName}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  onBlur={finishRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') finishRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  onClick={(e) => e.stopPropagation()}
+                  className="w-24 px-1 border rounded text-xs font-normal outline-none"
+                />
+              ) : (
+                <span className="max-w-[8rem] truncate">{session.name}</span>
+              )}
+              {sessions.length > 1 && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onClose(session.id);
+                  }}
+                  className="ml-2 text-gray-300 hover:text-red-500"
+                  title={status?.isConnected ? '关闭会话（将断开连接）' : '关闭会话'}
+                >
+                  <i className="fas fa-times text-[10px]"></i>
+                </button>
+              )}
+            </div>
+          );
+        })}
+        <button onClick={onAdd} className="px-2 py-1.5 text-xs text-gray-500 hover:text-blue-600 shrink-0" title="新建会话">
+          <i className="fas fa-plus"></i>
+        </button>
+      </div>
+
+      <button
+        onClick={onToggleMerged}
+        disabled={sessions.length < 2}
+        className={`mb-1 px-3 py-1 text-xs rounded-md border transition-colors shrink-0 disabled:opacity-30 disabled:cursor-not-allowed ${
+          isMerged ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+        }`}
+      >
+        <i className="fas fa-stream mr-1"></i> 合并时间线
+      </button>
+    </div>
+  );
+};
+
+export default SessionTabs;
@@ -1,5 +1,14 @@
-import React, { useEffect } from 'react';
-import { SerialConfig, DataBits, StopBits, Parity, CommMode } from '../types';
+import React, { useEffect, useState } from 'react';
+import { SerialConfig, DataBits, StopBits, Parity, CommMode, VirtualDeviceConfig, SerialInputSignals, SerialOutputSignals, SerialPortFilterConfig, WebSocketOptions, BluetoothConfig, BluetoothWriteOptions, GattServiceInfo, BridgeOptions, LineEnding, TextEncoding, InteractiveOptions, FramingOptions, TriggerRule } from '../types';
+import { SerialPort } from '../transports';
+import VirtualDevicePanel from './VirtualDevicePanel';
+import SerialPortPanel from './SerialPortPanel';
+import WebSocketOptionsPanel from './WebSocketOptionsPanel';
+import GattBrowserPanel from './GattBrowserPanel';
+import ModemSignalsPanel from './ModemSignalsPanel';
+import InteractivePanel from './InteractivePanel';
+import FramingPanel from './FramingPanel';
+import TriggersPanel from './TriggersPanel';
 
 interface SidebarProps {
   config: SerialConfig;
@@ -7,6 +16,20 @@ interface SidebarProps {
   isConnected: boolean;
   isAutoLineBreak: boolean;
   setIsAutoLineBreak: (val: boolean) => void;
+  rxLineEnding: LineEnding;
+  setRxLineEnding: (val: LineEnding) => void;
+  textEncoding: TextEncoding;
+  setTextEncoding: (val: TextEncoding) => void;
+  ansiEnabled: boolean;
+  setAnsiEnabled: (val: boolean) => void;
+  interactiveOptions: InteractiveOptions;
+  setInteractiveOptions: React.Dispatch<React.SetStateAction<InteractiveOptions>>;
+  framingOptions: FramingOptions;
+  setFramingOptions: React.Dispatch<React.SetStateAction<FramingOptions>>;
+  triggers: TriggerRule[];
+  setTriggers: React.Dispatch<React.SetStateAction<TriggerRule[]>>;
+  triggerCounts: Record<string, number>;
+  onResetTriggerCounts: (id?: string) => void;
   isAutoScroll: boolean;
   setIsAutoScroll: (val: boolean) => void;
   maxBufferSize: number;
@@ -16,18 +39,56 @@ interface SidebarProps {
   setCommMode: (val: CommMode) => void;
   wsUrl: string;
   setWsUrl: (val: string) => void;
+  wsOptions: WebSocketOptions;
+  setWsOptions: React.Dispatch<React.SetStateAction<WebSocketOptions>>;
   bluetoothServiceUUID: string;
   setBluetoothServiceUUID: (val: string) => void;
   bluetoothTxCharacteristicUUID: string;
   setBluetoothTxCharacteristicUUID: (val: string) => void;
   bluetoothRxCharacteristicUUID: string;
   setBluetoothRxCharacteristicUUID: (val: string) => void;
+  bluetoothWriteOptions: BluetoothWriteOptions;
+  setBluetoothWriteOptions: React.Dispatch<React.SetStateAction<BluetoothWriteOptions>>;
+  bluetoothDeviceName: string | null;
+  gattServices: GattServiceInfo[];
+  isDiscovering: boolean;
+  onDiscoverBluetooth: () => void;
+  onForgetBluetoothDevice: () => void;
+  virtualDeviceConfig: VirtualDeviceConfig;
+  setVirtualDeviceConfig: React.Dispatch<React.SetStateAction<VirtualDeviceConfig>>;
+  bridgeOptions: BridgeOptions;
+  setBridgeOptions: React.Dispatch<React.SetStateAction<BridgeOptions>>;
+  grantedSerialPorts: SerialPort[];
+  selectedSerialPort: SerialPort | null;
+  setSelectedSerialPort: (port: SerialPort | null) => void;
+  serialPortFilter: SerialPortFilterConfig;
+  setSerialPortFilter: React.Dispatch<React.SetStateAction<SerialPortFilterConfig>>;
+  serialAutoReconnect: boolean;
+  setSerialAutoReconnect: (val: boolean) => void;
+  modemSignalsEnabled: boolean;
+  outputSignals: Required<Omit<SerialOutputSignals, 'break'>>;
+  inputSignals: SerialInputSignals | null;
+  onOutputSignalChange: (name: 'dataTerminalReady' | 'requestToSend', value: boolean) => void;
+  onSendBreak: (durationMs: number) => void;
   onConnect: () => void;
   onDisconnect: () => void;
   isReconnecting?: boolean;
+  reconnectInfo?: { attempt: number, maxAttempts: number, nextRetryAt: number } | null;
 }
 
-const baudRates = [9600, 19200, 38400, 57600, 115200, 230400, 460800, 921600];
+const baudRates = [9600, 19200, 38400, 57600, 115200, 230400, 250000, 460800, 921600, 1000000, 1500000, 2000000];
+const readBufferSizes = [255, 1024, 4096, 16384, 65536];
+// 常见 MTU 对应的单包大小（MTU - 3）
+const bleChunkSizes = [20, 64, 128, 182, 244, 509];
+
+const textEncodings: { value: TextEncoding, label: string }[] = [
+  { value: TextEncoding.UTF8, label: 'UTF-8' },
+  { value: TextEncoding.GB18030, label: 'GBK / GB18030' },
+  { value: TextEncoding.Big5, label: 'Big5' },
+  { value: TextEncoding.ShiftJIS, label: 'Shift_JIS' },
+  { value: TextEncoding.Latin1, label: 'ISO-8859-1' },
+  { value: TextEncoding.ASCII, label: 'ASCII（显示控制字符）' }
+];
 const bufferSizes = [
   { value: 50 * 1024, label: '50 KB' },
   { value: 100 * 1024, label: '100 KB' },
@@ -52,6 +113,20 @@ const Sidebar: React.FC<SidebarProps> = ({
   isConnected,
   isAutoLineBreak,
   setIsAutoLineBreak,
+  rxLineEnding,
+  setRxLineEnding,
+  textEncoding,
+  setTextEncoding,
+  ansiEnabled,
+  setAnsiEnabled,
+  interactiveOptions,
+  setInteractiveOptions,
+  framingOptions,
+  setFramingOptions,
+  triggers,
+  setTriggers,
+  triggerCounts,
+  onResetTriggerCounts,
   isAutoScroll,
   setIsAutoScroll,
   maxBufferSize,
@@ -61,40 +136,187 @@ const Sidebar: React.FC<SidebarProps> = ({
   setCommMode,
   wsUrl,
   setWsUrl,
+  wsOptions,
+  setWsOptions,
   bluetoothServiceUUID,
   setBluetoothServiceUUID,
   bluetoothTxCharacteristicUUID,
   setBluetoothTxCharacteristicUUID,
   bluetoothRxCharacteristicUUID,
   setBluetoothRxCharacteristicUUID,
+  bluetoothWriteOptions,
+  setBluetoothWriteOptions,
+  bluetoothDeviceName,
+  gattServices,
+  isDiscovering,
+  onDiscoverBluetooth,
+  onForgetBluetoothDevice,
+  virtualDeviceConfig,
+  setVirtualDeviceConfig,
+  bridgeOptions,
+  setBridgeOptions,
+  grantedSerialPorts,
+  selectedSerialPort,
+  setSelectedSerialPort,
+  serialPortFilter,
+  setSerialPortFilter,
+  serialAutoReconnect,
+  setSerialAutoReconnect,
+  modemSignalsEnabled,
+  outputSignals,
+  inputSignals,
+  onOutputSignalChange,
+  onSendBreak,
   onConnect,
   onDisconnect,
-  isReconnecting = false
+  isReconnecting = false,
+  reconnectInfo = null
 }) => {
-  // 持久化蓝牙配置
-  useEffect(() => {
-    localStorage.setItem('bluetooth_service_uuid', bluetoothServiceUUID);
-  }, [bluetoothServiceUUID]);
-
-  useEffect(() => {
-    localStorage.setItem('bluetooth_tx_characteristic_uuid', bluetoothTxCharacteristicUUID);
-  }, [bluetoothTxCharacteristicUUID]);
+  // 预设或服务发现中选择的 UUID
+  const selectBluetoothUUIDs = (updates: Partial<BluetoothConfig>) => {
+    if (updates.serviceUUID !== undefined) setBluetoothServiceUUID(updates.serviceUUID);
+    if (updates.txCharacteristicUUID !== undefined) setBluetoothTxCharacteristicUUID(updates.txCharacteristicUUID);
+    if (updates.rxCharacteristicUUID !== undefined) setBluetoothRxCharacteristicUUID(updates.rxCharacteristicUUID);
+  };
 
-  useEffect(() => {
-    localStorage.setItem('bluetooth_rx_characteristic_uuid', bluetoothRxCharacteristicUUID);
-  }, [bluetoothRxCharacteristicUUID]);
   const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const { name, value } = e.target;
     setConfig(prev => ({
       ...prev,
-      [name]: name === 'baudRate' || name === 'dataBits' || name === 'stopBits' ? Number(value) : value
+      [name]: name === 'baudRate' || name === 'dataBits' || name === 'stopBits' || name === 'bufferSize' ? Number(value) : value
     }));
   };
 
+  // 波特率支持自由输入（如 250000、1500000），输入有效时才写入配置
+  const [baudRateInput, setBaudRateInput] = useState(String(config.baudRate));
+
+  useEffect(() => {
+    setBaudRateInput(String(config.baudRate));
+  }, [config.baudRate]);
+
+  const handleBaudRateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value.replace(/[^0-9]/g, '');
+    setBaudRateInput(value);
+    const baudRate = parseInt(value, 10);
+    if (baudRate > 0) {
+      setConfig(prev => ({ ...prev, baudRate }));
+    }
+  };
+
   const handleBufferSizeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     setMaxBufferSize(Number(e.target.value));
   };
 
+  // 重连等待期间每秒刷新倒计时
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!reconnectInfo) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [reconnectInfo]);
+
+  const webSocketSettings = (
+    <div>
+      <label className="block text-sm font-medium text-gray-600 mb-1">WebSocket 服务器地址</label>
+      <input
+        type="text"
+        value={wsUrl}
+        onChange={(e) => setWsUrl(e.target.value)}
+        disabled={isConnected || isReconnecting}
+        placeholder="ws://localhost:8080"
+        className="w-full bg-gray-50 border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 outline-none"
+      />
+      <p className="text-xs text-gray-500 mt-1">支持 ws:// 或 wss:// 协议</p>
+      <div className="mt-3">
+        <WebSocketOptionsPanel options={wsOptions} setOptions={setWsOptions} disabled={isConnected || isReconnecting} />
+      </div>
+    </div>
+  );
+
+  const serialSettings = (
+    <>
+      <SerialPortPanel
+        ports={grantedSerialPorts}
+        selectedPort={selectedSerialPort} setSelectedPort={setSelectedSerialPort}
+        filter={serialPortFilter} setFilter={setSerialPortFilter}
+        autoReconnect={serialAutoReconnect} setAutoReconnect={setSerialAutoReconnect}
+        disabled={isConnected || isReconnecting}
+      />
+
+      <div>
+        <label className="block text-sm font-medium text-gray-600 mb-1">波特率</label>
+        <input
+          type="text"
+          inputMode="numeric"
+          list="baud-rate-options"
+          value={baudRateInput}
+          onChange={handleBaudRateChange}
+          onBlur={() => setBaudRateInput(String(config.baudRate))}
+          disabled={isConnected}
+          placeholder="选择或输入波特率"
+          className="w-full bg-gray-50 border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 outline-none"
+        />
+        <datalist id="baud-rate-options">
+          {baudRates.map(br => <option key={br} value={br} />)}
+        </datalist>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">数据位</label>
+          <select name="dataBits" value={config.dataBits} onChange={handleChange} disabled={isConnected} className="w-full bg-gray-50 border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 outline-none">
+            <option value={DataBits.Five}>5</option>
+            <option value={DataBits.Six}>6</option>
+            <option value={DataBits.Seven}>7</option>
+            <option value={DataBits.Eight}>8</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">停止位</label>
+          <select name="stopBits" value={config.stopBits} onChange={handleChange} disabled={isConnected} className="w-full bg-gray-50 border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 outline-none">
+            <option value={StopBits.One}>1</option>
+            <option value={StopBits.Two}>2</option>
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-600 mb-1">校验位</label>
+        <select name="parity" value={config.parity} onChange={handleChange} disabled={isConnected} className="w-full bg-gray-50 border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 outline-none">
+          <option value={Parity.None}>None (无)</option>
+          <option value={Parity.Even}>Even (偶)</option>
+          <option value={Parity.Odd}>Odd (奇)</option>
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">流控</label>
+          <select name="flowControl" value={config.flowControl} onChange={handleChange} disabled={isConnected} className="w-full bg-gray-50 border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 outline-none">
+            <option value="none">None (无)</option>
+            <option value="hardware">RTS/CTS</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">读缓冲区</label>
+          <select name="bufferSize" value={config.bufferSize} onChange={handleChange} disabled={isConnected} className="w-full bg-gray-50 border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 outline-none">
+            {readBufferSizes.map(size => <option key={size} value={size}>{size >= 1024 ? `${size / 1024} KB` : `${size} B`}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <ModemSignalsPanel
+        enabled={modemSignalsEnabled}
+        outputSignals={outputSignals}
+        inputSignals={inputSignals}
+        onOutputSignalChange={onOutputSignalChange}
+        onSendBreak={onSendBreak}
+      />
+    </>
+  );
+
   const bufferUsagePercent = (currentBufferSize / maxBufferSize) * 100;
   const isBufferNearLimit = bufferUsagePercent > 80;
 
@@ -118,24 +340,58 @@ const Sidebar: React.FC<SidebarProps> = ({
               <option value={CommMode.Serial}>串口 (Serial)</option>
               <option value={CommMode.WebSocket}>WebSocket</option>
               <option value={CommMode.Bluetooth}>蓝牙 (Bluetooth)</option>
+              <option value={CommMode.Virtual}>虚拟设备 (无需硬件)</option>
+              <option value={CommMode.Bridge}>串口 ⇄ WebSocket 桥接</option>
             </select>
           </div>
 
           {commMode === CommMode.WebSocket ? (
-            <div>
-              <label className="block text-sm font-medium text-gray-600 mb-1">WebSocket 服务器地址</label>
-              <input
-                type="text"
-                value={wsUrl}
-                onChange={(e) => setWsUrl(e.target.value)}
-                disabled={isConnected}
-                placeholder="ws://localhost:8080"
-                className="w-full bg-gray-50 border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 outline-none"
-              />
-              <p className="text-xs text-gray-500 mt-1">支持 ws:// 或 wss:// 协议</p>
-            </div>
+            webSocketSettings
+          ) : commMode === CommMode.Bridge ? (
+            <>
+              {serialSettings}
+              {webSocketSettings}
+              <div>
+                <label className="block text-sm font-medium text-gray-600 mb-1">桥接选项</label>
+                <div className="space-y-2 p-3 bg-gray-50 rounded-md border border-gray-200">
+                  <label className="flex items-center text-xs text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={bridgeOptions.logTraffic}
+                      onChange={(e) => setBridgeOptions(prev => ({ ...prev, logTraffic: e.target.checked }))}
+                      disabled={isConnected || isReconnecting}
+                      className="mr-2 rounded text-blue-600 focus:ring-0"
+                    />
+                    <span>在终端记录转发的数据</span>
+                  </label>
+                  <label className="flex items-center text-xs text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={bridgeOptions.hexLog}
+                      onChange={(e) => setBridgeOptions(prev => ({ ...prev, hexLog: e.target.checked }))}
+                      disabled={isConnected || isReconnecting || !bridgeOptions.logTraffic}
+                      className="mr-2 rounded text-blue-600 focus:ring-0"
+                    />
+                    <span>以 Hex 记录</span>
+                  </label>
+                  <p className="text-[11px] text-gray-500">串口收到的数据转发到 WebSocket，WebSocket 收到的数据写入串口；发送区的数据发往串口</p>
+                </div>
+              </div>
+            </>
+          ) : commMode === CommMode.Virtual ? (
+            <VirtualDevicePanel config={virtualDeviceConfig} setConfig={setVirtualDeviceConfig} disabled={isConnected} />
           ) : commMode === CommMode.Bluetooth ? (
             <div className="space-y-3">
+              <GattBrowserPanel
+                config={{ serviceUUID: bluetoothServiceUUID, txCharacteristicUUID: bluetoothTxCharacteristicUUID, rxCharacteristicUUID: bluetoothRxCharacteristicUUID }}
+                onSelect={selectBluetoothUUIDs}
+                deviceName={bluetoothDeviceName}
+                services={gattServices}
+                isDiscovering={isDiscovering}
+                onDiscover={onDiscoverBluetooth}
+                onForget={onForgetBluetoothDevice}
+                disabled={isConnected}
+              />
               <div>
                 <label className="block text-sm font-medium text-gray-600 mb-1">服务 UUID (Service UUID)</label>
                 <input
@@ -172,42 +428,48 @@ const Sidebar: React.FC<SidebarProps> = ({
                 />
                 <p className="text-xs text-gray-500 mt-1">用于接收数据的特征 UUID（Notify属性）</p>
               </div>
-            </div>
-          ) : (
-            <>
               <div>
-                <label className="block text-sm font-medium text-gray-600 mb-1">波特率</label>
-                <select name="baudRate" value={config.baudRate} onChange={handleChange} disabled={isConnected} className="w-full bg-gray-50 border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 outline-none">
-                  {baudRates.map(br => <option key={br} value={br}>{br}</option>)}
-                </select>
-              </div>
-
-              <div className="grid grid-cols-2 gap-3">
-                <div>
-                  <label className="block text-sm font-medium text-gray-600 mb-1">数据位</label>
-                  <select name="dataBits" value={config.dataBits} onChange={handleChange} disabled={isConnected} className="w-full bg-gray-50 border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 outline-none">
-                    <option value={DataBits.Seven}>7</option>
-                    <option value={DataBits.Eight}>8</option>
-                  </select>
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-600 mb-1">停止位</label>
-                  <select name="stopBits" value={config.stopBits} onChange={handleChange} disabled={isConnected} className="w-full bg-gray-50 border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 outline-none">
-                    <option value={StopBits.One}>1</option>
-                    <option value={StopBits.Two}>2</option>
-                  </select>
+                <label className="block text-sm font-medium text-gray-600 mb-1">写入设置</label>
+                <div className="space-y-2 p-3 bg-gray-50 rounded-md border border-gray-200">
+                  <div className="flex items-center justify-between text-xs text-gray-600">
+                    <span>单包大小 (MTU-3)</span>
+                    <input
+                      type="number" min={1} max={512} list="ble-chunk-sizes" value={bluetoothWriteOptions.chunkSize}
+                      onChange={(e) => setBluetoothWriteOptions(prev => ({ ...prev, chunkSize: Math.min(512, Math.max(1, Number(e.target.value))) }))}
+                      disabled={isConnected}
+                      className="w-20 px-1 border rounded text-center"
+                    />
+                    <datalist id="ble-chunk-sizes">
+                      {bleChunkSizes.map(size => <option key={size} value={size} />)}
+                    </datalist>
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-gray-600">
+                    <span>写入方式</span>
+                    <select
+                      value={bluetoothWriteOptions.withoutResponse ? 'without' : 'with'}
+                      onChange={(e) => setBluetoothWriteOptions(prev => ({ ...prev, withoutResponse: e.target.value === 'without' }))}
+                      disabled={isConnected}
+                      className="w-28 px-1 border rounded text-xs"
+                    >
+                      <option value="with">有应答 (Write)</option>
+                      <option value="without">无应答 (WriteNR)</option>
+                    </select>
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-gray-600">
+                    <span>写入队列 (包)</span>
+                    <input
+                      type="number" min={1} max={64} value={bluetoothWriteOptions.maxInFlight}
+                      onChange={(e) => setBluetoothWriteOptions(prev => ({ ...prev, maxInFlight: Math.min(64, Math.max(1, Number(e.target.value))) }))}
+                      disabled={isConnected}
+                      className="w-20 px-1 border rounded text-center"
+                    />
+                  </div>
+                  <p className="text-[11px] text-gray-500">浏览器不公开协商后的 MTU，请按设备实际 MTU 设置；超过 MTU 会导致写入失败</p>
                 </div>
               </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-600 mb-1">校验位</label>
-                <select name="parity" value={config.parity} onChange={handleChange} disabled={isConnected} className="w-full bg-gray-50 border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 outline-none">
-                  <option value={Parity.None}>None (无)</option>
-                  <option value={Parity.Even}>Even (偶)</option>
-                  <option value={Parity.Odd}>Odd (奇)</option>
-                </select>
-              </div>
-            </>
+            </div>
+          ) : (
+            serialSettings
           )}
 
           <div>
@@ -239,6 +501,17 @@ const Sidebar: React.FC<SidebarProps> = ({
           <div className="pt-4 border-t">
             <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">终端设置</label>
             <div className="space-y-3 p-3 bg-gray-50 rounded-md border border-gray-200">
+              <label className="flex items-center text-xs text-gray-700" title="接收解码与发送编码均使用该编码">
+                <span className="mr-2">字符编码</span>
+                <select
+                  value={textEncoding}
+                  onChange={(e) => setTextEncoding(e.target.value as TextEncoding)}
+                  className="flex-1 bg-white border border-gray-300 rounded py-1 px-2 text-xs outline-none focus:ring-1 focus:ring-blue-500"
+                >
+                  {textEncodings.map(e => <option key={e.value} value={e.value}>{e.label}</option>)}
+                </select>
+              </label>
+
               <label className="flex items-center text-xs text-gray-700 cursor-pointer">
                 <input 
                   type="checkbox" 
@@ -246,9 +519,36 @@ const Sidebar: React.FC<SidebarProps> = ({
                   onChange={(e) => setIsAutoLineBreak(e.target.checked)}
                   className="mr-2 rounded text-blue-600 focus:ring-0"
                 />
-                <span>按数据包强制换行</span>
+                <span>分行显示</span>
+              </label>
+
+              <label className={`flex items-center text-xs text-gray-700 ${isAutoLineBreak ? '' : 'opacity-40'}`}>
+                <span className="mr-2">分行依据</span>
+                <select
+                  value={rxLineEnding}
+                  onChange={(e) => setRxLineEnding(e.target.value as LineEnding)}
+                  disabled={!isAutoLineBreak}
+                  className="flex-1 bg-white border border-gray-300 rounded py-1 px-2 text-xs outline-none focus:ring-1 focus:ring-blue-500"
+                >
+                  <option value={LineEnding.None}>数据包</option>
+                  <option value={LineEnding.CR}>CR (\r)</option>
+                  <option value={LineEnding.LF}>LF (\n)</option>
+                  <option value={LineEnding.CRLF}>CRLF (\r\n)</option>
+                </select>
               </label>
               
+              <FramingPanel options={framingOptions} setOptions={setFramingOptions} />
+
+              <label className="flex items-center text-xs text-gray-700 cursor-pointer" title="原始流模式按终端渲染颜色、光标移动和清屏，关闭后显示原始转义字符">
+                <input 
+                  type="checkbox" 
+                  checked={ansiEnabled}
+                  onChange={(e) => setAnsiEnabled(e.target.checked)}
+                  className="mr-2 rounded text-blue-600 focus:ring-0"
+                />
+                <span>解析 ANSI 转义序列</span>
+              </label>
+
               <label className="flex items-center text-xs text-gray-700 cursor-pointer">
                 <input 
                   type="checkbox" 
@@ -258,8 +558,15 @@ const Sidebar: React.FC<SidebarProps> = ({
                 />
                 <span>自动滚动到底部</span>
               </label>
+
+              <InteractivePanel options={interactiveOptions} setOptions={setInteractiveOptions} />
             </div>
           </div>
+
+          <div className="pt-4 border-t">
+            <label className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">自动应答</label>
+            <TriggersPanel triggers={triggers} setTriggers={setTriggers} counts={triggerCounts} onResetCount={onResetTriggerCounts} />
+          </div>
         </div>
       </div>
 
@@ -270,17 +577,35 @@ const Sidebar: React.FC<SidebarProps> = ({
               <i className="fas fa-globe mr-2"></i>
             ) : commMode === CommMode.Bluetooth ? (
               <span className="mr-2 text-lg"></span>
+            ) : commMode === CommMode.Virtual ? (
+              <i className="fas fa-vial mr-2"></i>
+            ) : commMode === CommMode.Bridge ? (
+              <i className="fas fa-exchange-alt mr-2"></i>
             ) : (
               <i className="fas fa-plug mr-2"></i>
             )}
-            {commMode === CommMode.WebSocket ? '连接 WebSocket' : commMode === CommMode.Bluetooth ? '扫描蓝牙设备' : '开启串口'}
+            {commMode === CommMode.WebSocket ? '连接 WebSocket' : commMode === CommMode.Bluetooth ? '扫描蓝牙设备' : commMode === CommMode.Virtual ? '启动虚拟设备' : commMode === CommMode.Bridge ? '启动桥接' : '开启串口'}
           </button>
         ) : (
           <button onClick={onDisconnect} className={`w-full ${isReconnecting ? 'bg-orange-500 hover:bg-orange-600' : 'bg-red-500 hover:bg-red-600'} text-white font-bold py-3 px-4 rounded-lg shadow-md transition-colors flex items-center justify-center`}>
             <i className={`fas ${isReconnecting ? 'fa-spinner fa-spin' : 'fa-power-off'} mr-2`}></i>
-            {commMode === CommMode.WebSocket ? (isReconnecting ? '放弃重连' : '断开 WebSocket') : commMode === CommMode.Bluetooth ? '断开蓝牙' : '关闭串口'}
+            {isReconnecting ? '放弃重连' : commMode === CommMode.WebSocket ? '断开 WebSocket' : commMode === CommMode.Bluetooth ? '断开蓝牙' : commMode === CommMode.Virtual ? '停止虚拟设备' : commMode === CommMode.Bridge ? '停止桥接' : '关闭串口'}
           </button>
         )}
+
+        {isReconnecting && reconnectInfo && (
+          <div className="text-xs text-orange-700 bg-orange-50 p-2 rounded border border-orange-200">
+            <div>
+              <i className="fas fa-redo mr-1"></i>
+              第 {reconnectInfo.attempt}{reconnectInfo.maxAttempts > 0 ? ` / ${reconnectInfo.maxAttempts}` : ''} 次重连
+            </div>
+            <div className="mt-0.5 text-orange-600">
+              {reconnectInfo.nextRetryAt > now
+                ? `下次重试: ${new Date(reconnectInfo.nextRetryAt).toLocaleTimeString([], { hour12: false })}（${Math.ceil((reconnectInfo.nextRetryAt - now) / 1000)} 秒后）`
+                : '正在连接...'}
+            </div>
+          </div>
+        )}
         
         {isBufferNearLimit && (
           <div className="text-xs text-red-600 bg-red-50 p-2 rounded border border-red-200">
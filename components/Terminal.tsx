@@ -1,77 +1,507 @@
-import React from 'react';
-import { LogEntry, DisplayMode } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LogEntry, DisplayMode, LineEnding, TextEncoding, LogTypeFilter, SearchMode, SearchQuery, HighlightRule } from '../types';
 import { uint8ArrayToHex } from '../utils/converters';
+import { createLineSplitter, DisplayLine } from '../utils/lines';
+import { AnsiLine, AnsiSegment, AnsiStyle, createAnsiScreen, showEscapes, stripAnsi } from '../utils/ansi';
+import { LogStore } from '../utils/logStore';
+import { compileFilter, compileSearch, findMatches, MatchRange, rowRanges, SearchMatch } from '../utils/search';
+import { compileRules, CompiledRule, matchRules, RuleRange, styleSegments } from '../utils/highlight';
+import VirtualList from './VirtualList';
+import SearchBar from './SearchBar';
+import HighlightRulesPanel from './HighlightRulesPanel';
 
 interface TerminalProps {
-  logs: LogEntry[];
+  logStore: LogStore;
+  logVersion: number; // 缓冲区修改后变化，触发增量渲染
   displayMode: DisplayMode;
   isAutoLineBreak: boolean;
+  lineEnding?: LineEnding; // 分行显示时的分行依据，None 表示按数据包
+  encoding?: TextEncoding; // 跨数据包拼接的行按该编码重新解码
+  ansiEnabled?: boolean; // 解析 ANSI 转义序列，关闭时显示原始转义
   terminalEndRef: React.RefObject<HTMLDivElement>;
   aiAnalysis: string | null; // Keep prop for compatibility but don't use
   onCloseAi: () => void;
   lineFrequency?: number; // 新增频率属性
+  rxBytes: number; // 缓冲区内接收/发送字节数，由会话增量统计
+  txBytes: number;
+  autoScroll: boolean;
+  sourceCounters?: Record<string, number>; // 桥接模式各方向转发字节数
+  interactive?: boolean; // 交互模式：终端获得焦点后按键直接发送
+  onKeyDown?: (e: React.KeyboardEvent) => void;
+  onPaste?: (text: string) => void;
+  highlightRules: HighlightRule[];
+  setHighlightRules: (rules: HighlightRule[]) => void;
 }
 
-const Terminal: React.FC<TerminalProps> = ({ logs, displayMode, isAutoLineBreak, terminalEndRef, lineFrequency }) => {
+// 终端默认前景/背景色，反显时使用
+const DEFAULT_FG = '#1e293b';
+const DEFAULT_BG = '#ffffff';
+
+const ansiStyleToCss = (style: AnsiStyle): React.CSSProperties => {
+  const fg = style.inverse ? (style.bg || DEFAULT_BG) : style.fg;
+  const bg = style.inverse ? (style.fg || DEFAULT_FG) : style.bg;
+  return {
+    color: fg,
+    backgroundColor: bg,
+    fontWeight: style.bold ? 'bold' : undefined,
+    opacity: style.dim ? 0.6 : undefined,
+    fontStyle: style.italic ? 'italic' : undefined,
+    textDecoration: style.underline ? 'underline' : undefined
+  };
+};
+
+// 搜索结果高亮：mark 为 current 表示当前定位的匹配
+type MarkedSegment = AnsiSegment<'rx' | 'tx'> & { mark?: 'match' | 'current' };
+
+const markClass = (mark: MarkedSegment['mark']) => mark === 'current' ? 'bg-orange-400 text-white' : 'bg-yellow-200';
+
+const segmentClass = (segment: MarkedSegment) => segment.mark ? markClass(segment.mark) : segment.style.fg ? '' : segment.kind === 'tx' ? 'text-blue-600' : 'text-slate-800';
+
+const segmentStyle = (segment: MarkedSegment): React.CSSProperties => {
+  const css = ansiStyleToCss(segment.style);
+  return segment.mark ? { ...css, color: undefined, backgroundColor: undefined } : css;
+};
+
+// 按匹配范围（UTF-16 偏移）切分各段，匹配部分单独成段
+const markSegments = (segments: AnsiSegment<'rx' | 'tx'>[], ranges: MatchRange[], current: number): MarkedSegment[] => {
+  if (ranges.length === 0) return segments;
+  const result: MarkedSegment[] = [];
+  let offset = 0;
+  segments.forEach(segment => {
+    const end = offset + segment.text.length;
+    let at = offset;
+    ranges.forEach(range => {
+      const from = Math.max(range.start, at);
+      const to = Math.min(range.end, end);
+      if (from >= to) return;
+      if (from > at) result.push({ ...segment, text: segment.text.slice(at - offset, from - offset) });
+      result.push({ ...segment, text: segment.text.slice(from - offset, to - offset), mark: range.index === current ? 'current' : 'match' });
+      at = to;
+    });
+    if (at < end) result.push({ ...segment, text: segment.text.slice(at - offset) });
+    offset = end;
+  });
+  return result;
+};
+
+// 渲染带高亮的纯文本
+const renderMarked = (text: string, ranges: MatchRange[], current: number) => {
+  if (ranges.length === 0) return text;
+  const nodes: React.ReactNode[] = [];
+  let at = 0;
+  ranges.forEach(range => {
+    if (range.start > at) nodes.push(text.slice(at, range.start));
+    nodes.push(<mark key={range.index} className={markClass(range.index === current ? 'current' : 'match')}>{text.slice(range.start, range.end)}</mark>);
+    at = range.end;
+  });
+  if (at < text.length) nodes.push(text.slice(at));
+  return nodes;
+};
+
+// 渲染一行终端内容，cursor 为光标所在列（按字符计）
+const renderSegments = (segments: MarkedSegment[], cursor?: number) => {
+  const nodes: React.ReactNode[] = [];
+  let offset = 0;
+  segments.forEach((segment, i) => {
+    const chars = Array.from(segment.text);
+    if (cursor !== undefined && cursor >= offset && cursor < offset + chars.length) {
+      const at = cursor - offset;
+      nodes.push(<span key={`${i}a`} className={segmentClass(segment)} style={segmentStyle(segment)}>{chars.slice(0, at).join('')}</span>);
+      nodes.push(<span key={`${i}c`} className="bg-slate-700 text-white animate-pulse">{chars[at]}</span>);
+      nodes.push(<span key={`${i}b`} className={segmentClass(segment)} style={segmentStyle(segment)}>{chars.slice(at + 1).join('')}</span>);
+    } else {
+      nodes.push(<span key={i} className={segmentClass(segment)} style={segmentStyle(segment)}>{segment.text}</span>);
+    }
+    offset += chars.length;
+  });
+  if (cursor !== undefined && cursor >= offset) {
+    nodes.push(<span key="pad">{' '.repeat(cursor - offset)}</span>);
+    nodes.push(<span key="cursor" className="bg-slate-700 animate-pulse"> </span>);
+  }
+  return nodes;
+};
+
+// 按高亮规则处理一行接收数据：整行规则优先，样式覆盖整行文本并设置行背景
+const highlightRow = (rules: CompiledRule[], text: string): { ranges: RuleRange[], rowStyle?: React.CSSProperties } => {
+  if (rules.length === 0) return { ranges: [] };
+  const { ranges, line } = matchRules(rules, text);
+  if (!line) return { ranges };
+  return { ranges: [{ start: 0, end: text.length, rule: line }], rowStyle: { backgroundColor: line.bg } };
+};
+
+// 增量渲染的数据行来源：新日志只追加处理，不重新计算整个缓冲区
+interface RowSource<R> {
+  push(log: LogEntry): void;
+  rowCount(): number;
+  getRow(index: number): R;
+  currentRow(): number; // 下一条日志开始所在的行
+  getCursor?(): { row: number, col: number };
+}
+
+// 按记录类型过滤，null 表示全部显示
+type LogAccept = ((log: LogEntry) => boolean) | null;
+
+interface RowState<R> {
+  create: () => RowSource<R>;
+  accept: LogAccept;
+  source: RowSource<R>;
+  generation: number;
+  appended: number; // 已处理的记录数（含已淘汰的），与 store.offset() 同一计数
+  startRows: WeakMap<LogEntry, number>;
+}
+
+// 缓冲区头部淘汰的行超过该数量且超过一半时重建，释放内存
+const REBUILD_HIDDEN_ROWS = 5000;
+
+const buildRows = <R,>(create: () => RowSource<R>, accept: LogAccept, store: LogStore): RowState<R> => {
+  const state: RowState<R> = { create, accept, source: create(), generation: store.generation(), appended: store.offset(), startRows: new WeakMap() };
+  appendRows(state, store);
+  return state;
+};
+
+const appendRows = <R,>(state: RowState<R>, store: LogStore) => {
+  const offset = store.offset();
+  const end = offset + store.size();
+  // 两次渲染之间已被淘汰的记录直接跳过
+  for (let n = Math.max(state.appended, offset); n < end; n++) {
+    const log = store.get(n - offset)!;
+    state.startRows.set(log, state.source.currentRow());
+    if (!state.accept || state.accept(log)) state.source.push(log);
+  }
+  state.appended = end;
+};
+
+// 缓冲区只在尾部追加、头部淘汰时增量更新；清屏或重新解码后重建
+const useRowSource = <R,>(store: LogStore, version: number, create: (() => RowSource<R>) | null, accept: LogAccept) => {
+  const stateRef = useRef<RowState<R> | null>(null);
+  return useMemo(() => {
+    if (!create) {
+      stateRef.current = null;
+      return null;
+    }
+    let state = stateRef.current;
+    if (!state || state.create !== create || state.accept !== accept || state.generation !== store.generation()) {
+      state = buildRows(create, accept, store);
+    } else {
+      appendRows(state, store);
+    }
+    const first = store.get(0);
+    let firstRow = first ? state.startRows.get(first) ?? 0 : state.source.rowCount();
+    // 隐藏行过多，或缓存的行号超出当前行数时重建
+    if (firstRow > state.source.rowCount() || (firstRow > REBUILD_HIDDEN_ROWS && firstRow > state.source.rowCount() / 2)) {
+      state = buildRows(create, accept, store);
+      firstRow = 0;
+    }
+    stateRef.current = state;
+    return { source: state.source, firstRow, count: state.source.rowCount() - firstRow };
+  }, [store, version, create, accept]);
+};
+
+// 只显示匹配过滤表达式的行。新数据只检查新增行和末尾可能仍在变化的行
+// （正在接收的行、ANSI 光标可回写的屏幕区域）
+const MUTABLE_TAIL_ROWS = 24;
+
+interface FilterState {
+  source: unknown;
+  textMode: string; // 行文本的显示方式（十六进制、ANSI 等），变化时重新过滤
+  regex: RegExp;
+  rows: number[];
+  checked: number; // 已检查到的行号（不含）
+}
+
+const useFilteredRows = (source: unknown, textMode: string, firstRow: number, rowCount: number, version: number, regex: RegExp | null, rowText: (row: number) => string) => {
+  const stateRef = useRef<FilterState | null>(null);
+  return useMemo(() => {
+    if (!regex) {
+      stateRef.current = null;
+      return null;
+    }
+    let state = stateRef.current;
+    if (!state || state.source !== source || state.textMode !== textMode || state.regex !== regex || rowCount < state.checked) {
+      state = { source, textMode, regex, rows: [], checked: firstRow };
+    }
+    const from = Math.max(firstRow, state.checked - MUTABLE_TAIL_ROWS);
+    let keep = state.rows.length;
+    while (keep > 0 && state.rows[keep - 1] >= from) keep--;
+    let drop = 0;
+    while (drop < keep && state.rows[drop] < firstRow) drop++;
+    const rows = state.rows.slice(drop, keep);
+    for (let row = from; row < rowCount; row++) {
+      if (regex.test(rowText(row))) rows.push(row);
+    }
+    stateRef.current = { source, textMode, regex, rows, checked: rowCount };
+    return rows;
+  }, [source, textMode, firstRow, rowCount, version, regex]);
+};
+
+// 数据持续到达时限制重新搜索的频率，最后一次变化之后一定会更新
+const useThrottled = <T,>(value: T, intervalMs: number): T => {
+  const [throttled, setThrottled] = useState(value);
+  const lastRef = useRef(0);
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      lastRef.current = Date.now();
+      setThrottled(value);
+    }, Math.max(0, lastRef.current + intervalMs - Date.now()));
+    return () => clearTimeout(timer);
+  }, [value, intervalMs]);
+  return throttled;
+};
+
+const SEARCH_INTERVAL_MS = 250;
+
+type StreamKind = 'rx' | 'tx';
+
+// 原始流每行最多显示的十六进制字节数
+const HEX_ROW_BYTES = 32;
+
+// 原始流模式：ansi 按终端解析转义序列，text 显示原始字符，hex 显示十六进制
+const createStreamRows = (mode: 'ansi' | 'text' | 'hex'): RowSource<AnsiLine<StreamKind>> => {
+  const screen = createAnsiScreen<StreamKind>(mode !== 'ansi');
+  let hexColumn = 0;
+  const push = (log: LogEntry) => {
+    if (log.type !== 'rx' && log.type !== 'tx') {
+      screen.writeInfo(`串口状态: ${log.text}`);
+      hexColumn = 0;
+    } else if (mode === 'hex') {
+      let text = '';
+      log.data.forEach(b => {
+        text += b.toString(16).padStart(2, '0').toUpperCase() + ' ';
+        if (++hexColumn % HEX_ROW_BYTES === 0) text += '\n';
+      });
+      screen.write(text, log.type);
+    } else {
+      screen.write(mode === 'ansi' ? log.text : showEscapes(log.text), log.type);
+    }
+  };
+  return { push, rowCount: screen.rowCount, getRow: screen.getRow, currentRow: () => screen.getCursor().row, getCursor: screen.getCursor };
+};
+
+const Terminal: React.FC<TerminalProps> = ({ logStore, logVersion, displayMode, isAutoLineBreak, lineEnding = LineEnding.None, encoding = TextEncoding.UTF8, ansiEnabled = true, terminalEndRef, lineFrequency, rxBytes, txBytes, autoScroll, sourceCounters = {}, interactive = false, onKeyDown, onPaste, highlightRules, setHighlightRules }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [query, setQuery] = useState<SearchQuery>({ mode: SearchMode.Text, pattern: '', caseSensitive: false });
+  const [typeFilter, setTypeFilter] = useState<LogTypeFilter>({ rx: true, tx: true, sys: true });
+  const [filter, setFilter] = useState('');
+  const [current, setCurrent] = useState(-1); // 当前定位的匹配
+  const [jumpTo, setJumpTo] = useState<{ index: number } | null>(null);
+  const [showRules, setShowRules] = useState(false);
+
+  // 开启交互模式时让终端获得键盘焦点
+  useEffect(() => {
+    if (interactive) containerRef.current?.focus();
+  }, [interactive]);
+
+  const hexView = displayMode === DisplayMode.Hex;
+  const streamMode = hexView ? 'hex' : ansiEnabled ? 'ansi' : 'text';
+  const accept = useMemo<LogAccept>(() => typeFilter.rx && typeFilter.tx && typeFilter.sys ? null : (log) => {
+    return log.type === 'rx' ? typeFilter.rx : log.type === 'tx' ? typeFilter.tx : typeFilter.sys;
+  }, [typeFilter]);
+  const createLines = useMemo(() => isAutoLineBreak ? () => createLineSplitter(lineEnding, encoding) : null, [isAutoLineBreak, lineEnding, encoding]);
+  // 原始流模式下按终端方式渲染 ANSI 转义序列
+  const createStream = useMemo(() => isAutoLineBreak ? null : () => createStreamRows(streamMode), [isAutoLineBreak, streamMode]);
+  const lines = useRowSource<DisplayLine>(logStore, logVersion, createLines, accept);
+  const stream = useRowSource<AnsiLine<StreamKind>>(logStore, logVersion, createStream, accept);
+  const cursor = interactive && stream?.source.getCursor ? stream.source.getCursor() : null;
+  const view = lines || stream;
+
+  const displayText = (text: string) => ansiEnabled ? stripAnsi(text) : showEscapes(text);
+
+  // 各行显示的文本，搜索和过滤都作用于显示的内容
+  const lineText = (line: DisplayLine) => line.type !== 'rx' && line.type !== 'tx' ? line.text : hexView ? uint8ArrayToHex(line.data) : displayText(line.text);
+  const streamText = (line: AnsiLine<StreamKind>) => line.info ?? line.segments.map(segment => segment.text).join('');
+  const rowText = (row: number) => lines ? lineText(lines.source.getRow(row)) : stream ? streamText(stream.source.getRow(row)) : '';
+
+  // 相邻两行在搜索时的连接文本：按数据包分行时同一方向的连续数据包、
+  // 原始流十六进制显示中按字节数折行的行视为连续数据，匹配可以跨越它们
+  const rowJoiner = (prev: number, row: number) => {
+    if (prev !== row - 1) return '\n';
+    if (lines) {
+      if (lineEnding !== LineEnding.None) return '\n';
+      const a = lines.source.getRow(prev);
+      const b = lines.source.getRow(row);
+      const continuous = (a.type === 'rx' || a.type === 'tx') && a.type === b.type && a.source === b.source;
+      return continuous ? (hexView ? ' ' : '') : '\n';
+    }
+    if (!stream) return '\n';
+    return hexView && stream.source.getRow(prev).info === undefined && stream.source.getRow(row).info === undefined ? '' : '\n';
+  };
+
+  const textMode = `${displayMode}-${ansiEnabled}`;
+  const { filterRegex, filterError } = useMemo(() => {
+    try {
+      return { filterRegex: compileFilter(filter), filterError: null };
+    } catch (err: any) {
+      return { filterRegex: null, filterError: err.message as string };
+    }
+  }, [filter]);
+  const filtered = useFilteredRows(view?.source, textMode, view?.firstRow ?? 0, view ? view.source.rowCount() : 0, logVersion, filterRegex, rowText);
+  const visibleCount = filtered ? filtered.length : view?.count ?? 0;
+  const rowAt = (index: number) => filtered ? filtered[index] : view!.firstRow + index;
+
+  const { searchRegex, searchError } = useMemo(() => {
+    try {
+      return { searchRegex: compileSearch(query, hexView, encoding), searchError: null };
+    } catch (err: any) {
+      return { searchRegex: null, searchError: err.message as string };
+    }
+  }, [query, hexView, encoding]);
+  const searchVersion = useThrottled(logVersion, SEARCH_INTERVAL_MS);
+  const matches = useMemo<SearchMatch[]>(() => {
+    if (!searchRegex || !view) return [];
+    const rows = Array.from({ length: visibleCount }, (_, i) => rowAt(i));
+    const found = findMatches(searchRegex, rows.map(rowText), rows.map((row, i) => i > 0 ? rowJoiner(rows[i - 1], row) : ''));
+    // 转换为行号，数据继续到达时匹配位置保持有效
+    return found.map(match => ({ ...match, startRow: rows[match.startRow], endRow: rows[match.endRow] }));
+  }, [searchRegex, view?.source, textMode, filterRegex, searchVersion]);
+
+  useEffect(() => setCurrent(-1), [searchRegex]);
+  const currentMatch = current < matches.length ? current : -1;
+
+  const goToMatch = (index: number) => {
+    if (matches.length === 0 || !view) return;
+    const next = (index + matches.length) % matches.length;
+    const row = matches[next].startRow;
+    let visibleIndex = row - view.firstRow;
+    if (filtered) {
+      visibleIndex = 0;
+      while (visibleIndex < filtered.length - 1 && filtered[visibleIndex] < row) visibleIndex++;
+    }
+    setCurrent(next);
+    setJumpTo({ index: Math.max(0, visibleIndex) });
+  };
+
+  // 定位到某个匹配后不再自动滚动到底部，清空搜索后恢复
+  const following = autoScroll && currentMatch < 0;
+  const rangesOf = (row: number, text: string) => matches.length > 0 ? rowRanges(matches, row, text.length) : [];
+  const compiledRules = useMemo(() => compileRules(highlightRules, hexView, encoding), [highlightRules, hexView, encoding]);
+
+  const renderLine = (log: DisplayLine, row: number) => {
+    const text = lineText(log);
+    const highlight = log.type === 'rx' ? highlightRow(compiledRules, text) : { ranges: [] };
+    return (
+      <div className="flex px-1 mb-1 hover:bg-gray-100 rounded" style={highlight.rowStyle}>
+        <span className="text-gray-400 mr-3 w-24 shrink-0 text-[11px] select-none opacity-80">
+          {log.timestamp.toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit', fractionalDigits: 3 } as any)}
+        </span>
+        <span className={`mr-2 w-10 shrink-0 font-bold text-center rounded text-[9px] py-0.5 self-center ${
+          log.type === 'rx' ? 'bg-emerald-100 text-emerald-700' : 
+          log.type === 'tx' ? 'bg-blue-100 text-blue-700' : 'bg-gray-200 text-gray-700'
+        }`}>
+          {log.type === 'rx' ? 'RX' : log.type === 'tx' ? 'TX' : 'SYS'}
+        </span>
+        {log.source && (
+          <span className="mr-2 shrink-0 text-[10px] font-sans text-gray-500 self-center">{log.source}</span>
+        )}
+        <span className={`break-all leading-relaxed ${log.type === 'rx' ? 'text-slate-800' : log.type === 'tx' ? 'text-blue-600' : 'text-slate-400 italic'}`}>
+          {highlight.ranges.length > 0
+            ? renderSegments(markSegments(styleSegments([{ text, style: {}, kind: 'rx' as const }], highlight.ranges, 'rx'), rangesOf(row, text), currentMatch))
+            : renderMarked(text, rangesOf(row, text), currentMatch)}
+          {log.type === 'tx' && hexView ? ' ' : ''}
+        </span>
+      </div>
+    );
+  };
+
+  const renderStreamLine = (line: AnsiLine<StreamKind>, row: number) => {
+    const text = streamText(line);
+    const ranges = rangesOf(row, text);
+    if (line.info !== undefined) {
+      return <div className="text-amber-600 my-2 text-xs border-l-2 border-amber-200 pl-2">{renderMarked(line.info, ranges, currentMatch)}</div>;
+    }
+    const highlight = line.segments.some(segment => segment.kind === 'rx') ? highlightRow(compiledRules, text) : { ranges: [] };
+    return (
+      <div className="min-h-[1.25em]" style={highlight.rowStyle}>
+        {renderSegments(markSegments(styleSegments(line.segments, highlight.ranges, 'rx'), ranges, currentMatch), cursor && row === cursor.row ? cursor.col : undefined)}
+      </div>
+    );
+  };
+
   return (
     <div className="flex-1 bg-white rounded-xl overflow-hidden shadow-sm flex flex-col relative border border-gray-200 h-full">
+      <SearchBar
+        query={query}
+        setQuery={setQuery}
+        searchError={searchError}
+        matchCount={matches.length}
+        current={currentMatch}
+        onNext={() => goToMatch(currentMatch + 1)}
+        onPrev={() => goToMatch(currentMatch < 0 ? -1 : currentMatch - 1)}
+        typeFilter={typeFilter}
+        setTypeFilter={setTypeFilter}
+        filter={filter}
+        setFilter={setFilter}
+        filterError={filterError}
+        ruleCount={compiledRules.length}
+        onToggleRules={() => setShowRules(prev => !prev)}
+      />
+      {showRules && (
+        <HighlightRulesPanel rules={highlightRules} onUpdate={setHighlightRules} onClose={() => setShowRules(false)} />
+      )}
+
       {/* Logs Window */}
-      <div className={`flex-1 p-4 overflow-y-auto custom-scrollbar font-mono text-[13px] bg-slate-50/20 ${!isAutoLineBreak ? 'whitespace-pre-wrap break-all' : ''}`}>
-        {logs.length === 0 && (
+      <div
+        ref={containerRef}
+        tabIndex={interactive ? 0 : undefined}
+        onKeyDown={interactive ? onKeyDown : undefined}
+        onPaste={interactive ? (e) => {
+          e.preventDefault();
+          onPaste?.(e.clipboardData.getData('text'));
+        } : undefined}
+        className={`flex-1 p-4 overflow-y-auto custom-scrollbar font-mono text-[13px] bg-slate-50/20 outline-none ${interactive ? 'focus:ring-2 focus:ring-inset focus:ring-blue-300' : ''} ${!isAutoLineBreak ? 'whitespace-pre-wrap break-all' : ''}`}
+      >
+        {logStore.size() === 0 && (
           <div className="h-full flex flex-col items-center justify-center text-gray-300">
             <i className="fas fa-terminal text-4xl opacity-20 mb-2"></i>
             <p className="text-xs font-sans">等待串口数据...</p>
           </div>
         )}
 
-        {isAutoLineBreak ? (
-          logs.map((log) => (
-            <div key={log.id} className="flex px-1 mb-1 hover:bg-gray-100 rounded">
-              <span className="text-gray-400 mr-3 w-24 shrink-0 text-[11px] select-none opacity-80">
-                {log.timestamp.toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit', fractionalDigits: 3 } as any)}
-              </span>
-              <span className={`mr-2 w-10 shrink-0 font-bold text-center rounded text-[9px] py-0.5 self-center ${
-                log.type === 'rx' ? 'bg-emerald-100 text-emerald-700' : 
-                log.type === 'tx' ? 'bg-blue-100 text-blue-700' : 'bg-gray-200 text-gray-700'
-              }`}>
-                {log.type === 'rx' ? 'RX' : log.type === 'tx' ? 'TX' : 'SYS'}
-              </span>
-              <span className={`break-all leading-relaxed ${log.type === 'rx' ? 'text-slate-800' : log.type === 'tx' ? 'text-blue-600' : 'text-slate-400 italic'}`}>
-                {log.type === 'rx' ? (displayMode === DisplayMode.Hex ? uint8ArrayToHex(log.data) : log.text) : 
-                 log.type === 'tx' ? (displayMode === DisplayMode.Hex ? uint8ArrayToHex(log.data) + ' ' : log.text) : 
-                 log.text}
-              </span>
-            </div>
-          ))
-        ) : (
-          <div className="inline">
-            {logs.map((log) => (
-              <span 
-                key={log.id} 
-                className={`${log.type === 'rx' ? 'text-slate-800' : log.type === 'tx' ? 'text-blue-600' : 'text-amber-600 block my-2 text-xs border-l-2 border-amber-200 pl-2'}`}
-              >
-                {log.type === 'tx' ? (displayMode === DisplayMode.Hex ? uint8ArrayToHex(log.data) + ' ' : log.text) : 
-                 log.type === 'rx' ? (displayMode === DisplayMode.Hex ? uint8ArrayToHex(log.data) + ' ' : log.text) : 
-                 `串口状态: ${log.text}`}
-              </span>
-            ))}
-          </div>
+        {lines ? (
+          <VirtualList
+            scrollRef={containerRef}
+            count={visibleCount}
+            getKey={rowAt}
+            estimateHeight={25}
+            followOutput={following}
+            jumpTo={jumpTo}
+            renderRow={(i) => renderLine(lines.source.getRow(rowAt(i)), rowAt(i))}
+          />
+        ) : stream && (
+          <>
+            <VirtualList
+              scrollRef={containerRef}
+              count={visibleCount}
+              getKey={rowAt}
+              estimateHeight={20}
+              followOutput={following}
+              jumpTo={jumpTo}
+              renderRow={(i) => renderStreamLine(stream.source.getRow(rowAt(i)), rowAt(i))}
+            />
+            {cursor && cursor.row >= stream.source.rowCount() && (
+              <div className="min-h-[1.25em]">{renderSegments([], cursor.col)}</div>
+            )}
+          </>
         )}
-        <div ref={terminalEndRef} className="h-4 w-full invisible" />
+        {/* 会话在新数据到达时滚动到该元素，定位搜索结果时暂时解除 */}
+        <div ref={following ? terminalEndRef : undefined} className="h-4 w-full invisible" />
       </div>
 
       {/* 底部状态栏 */}
       <div className="bg-white px-4 py-1.5 text-[10px] text-gray-400 flex justify-between border-t border-gray-100 font-sans select-none">
         <div className="flex space-x-4">
-          <span>总行数: {logs.length}</span>
-          <span className="text-emerald-600">接收: {logs.filter(l => l.type === 'rx').reduce((sum, l) => sum + l.byteCount, 0)} 字节</span>
-          <span className="text-blue-600">发送: {logs.filter(l => l.type === 'tx').reduce((sum, l) => sum + l.byteCount, 0)} 字节</span>
+          <span>总行数: {logStore.size()}</span>
+          {filtered && <span className="text-amber-600">过滤后: {filtered.length} 行</span>}
+          <span className="text-emerald-600">接收: {rxBytes} 字节</span>
+          <span className="text-blue-600">发送: {txBytes} 字节</span>
           {/* 显示每秒换行符频率 */}
           <span className="text-purple-600">换行频率: {lineFrequency !== undefined ? `${lineFrequency} 行/秒` : '0 行/秒'}</span>
+          {Object.entries(sourceCounters).map(([label, count]) => (
+            <span key={label} className="text-gray-600">{label}: {count} 字节</span>
+          ))}
         </div>
         <div className="flex items-center space-x-2">
-          <i className={`fas fa-circle text-[6px] ${logs.length > 0 ? 'text-green-500' : 'text-gray-300'}`}></i>
-          <span>{isAutoLineBreak ? '分行显示' : '原始流'}</span>
+          <i className={`fas fa-circle text-[6px] ${logStore.size() > 0 ? 'text-green-500' : 'text-gray-300'}`}></i>
+          <span>{isAutoLineBreak ? '分行显示' : streamMode === 'ansi' ? '原始流 · ANSI' : '原始流'}{interactive ? ' · 交互模式（点击终端后直接输入）' : ''}</span>
         </div>
       </div>
     </div>
@@ -0,0 +1,383 @@
+import React, { useRef, useState } from 'react';
+import { AssertOperator, DisplayMode, TestCase, TestStep, TestStepType } from '../types';
+import { countResults, reportToJUnit, TestReport, TestStatus } from '../utils/testRunner';
+
+interface TestPanelProps {
+  testCases: TestCase[];
+  onUpdate: (testCases: TestCase[]) => void;
+  report: TestReport | null;
+  suiteName: string; // 导出 JUnit 时的测试套件名称
+  onRun: () => void;
+  onCancel: () => void;
+  isConnected: boolean;
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const stepTypes: { value: TestStepType, label: string }[] = [
+  { value: TestStepType.Send, label: '发送' },
+  { value: TestStepType.Expect, label: '等待' },
+  { value: TestStepType.Assert, label: '断言' },
+  { value: TestStepType.Delay, label: '延时' }
+];
+
+const statusStyles: Record<TestStatus, { label: string, className: string }> = {
+  pending: { label: '等待', className: 'bg-gray-100 text-gray-400' },
+  running: { label: '运行中', className: 'bg-blue-100 text-blue-700' },
+  passed: { label: '通过', className: 'bg-green-100 text-green-700' },
+  failed: { label: '失败', className: 'bg-red-100 text-red-700' },
+  skipped: { label: '跳过', className: 'bg-gray-100 text-gray-500' }
+};
+
+const StatusBadge: React.FC<{ status: TestStatus }> = ({ status }) => (
+  <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${statusStyles[status].className}`}>{statusStyles[status].label}</span>
+);
+
+const download = (content: string, type: string, filename: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// 测试序列编辑与运行结果，运行后自动切换到结果表
+const TestPanel: React.FC<TestPanelProps> = ({ testCases, onUpdate, report, suiteName, onRun, onCancel, isConnected }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(() => testCases[0]?.id ?? null);
+  const [view, setView] = useState<'edit' | 'result'>('edit');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = testCases.find(testCase => testCase.id === selectedId) || testCases[0];
+  const isRunning = !!report && !report.finished;
+  const enabledCount = testCases.filter(testCase => testCase.enabled).length;
+
+  const addCase = () => {
+    let index = testCases.length + 1;
+    while (testCases.some(c => c.name === `用例 ${index}`)) index++;
+    const testCase: TestCase = { id: newId(), name: `用例 ${index}`, enabled: true, steps: [] };
+    onUpdate([...testCases, testCase]);
+    setSelectedId(testCase.id);
+  };
+
+  const updateCase = (id: string, updates: Partial<TestCase>) => {
+    onUpdate(testCases.map(testCase => testCase.id === id ? { ...testCase, ...updates } : testCase));
+  };
+
+  const updateSteps = (update: (steps: TestStep[]) => TestStep[]) => {
+    if (selected) updateCase(selected.id, { steps: update(selected.steps) });
+  };
+
+  const addStep = () => {
+    updateSteps(steps => [...steps, {
+      id: newId(),
+      type: TestStepType.Send,
+      content: '',
+      mode: DisplayMode.Text,
+      pattern: '',
+      timeoutMs: 1000,
+      variable: '1',
+      operator: AssertOperator.Equal,
+      expected: ''
+    }]);
+  };
+
+  const updateStep = (id: string, updates: Partial<TestStep>) => {
+    updateSteps(steps => steps.map(step => step.id === id ? { ...step, ...updates } : step));
+  };
+
+  const moveStep = (index: number, delta: number) => {
+    updateSteps(steps => {
+      const target = index + delta;
+      if (target < 0 || target >= steps.length) return steps;
+      const next = [...steps];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleRun = () => {
+    setView('result');
+    onRun();
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const json = JSON.parse(event.target?.result as string);
+        if (Array.isArray(json)) {
+          onUpdate(json);
+        }
+      } catch (err) {
+        alert('无效的 JSON 文件');
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const exportReport = (format: 'json' | 'junit') => {
+    if (!report) return;
+    const filename = `serial_test_report_${new Date().getTime()}`;
+    if (format === 'json') download(JSON.stringify(report, null, 2), 'application/json', `${filename}.json`);
+    else download(reportToJUnit(report, suiteName), 'application/xml', `${filename}.xml`);
+  };
+
+  const counts = report ? countResults(report) : null;
+  const inputClass = 'px-2 py-0.5 border border-gray-300 rounded text-[11px] font-mono outline-none focus:border-blue-400';
+
+  const renderStepFields = (step: TestStep) => {
+    switch (step.type) {
+      case TestStepType.Send:
+        return (
+          <>
+            <input
+              value={step.content}
+              onChange={(e) => updateStep(step.id, { content: e.target.value })}
+              placeholder={step.mode === DisplayMode.Hex ? 'AA 55 01' : 'AT+ID?\\r\\n（解析转义）'}
+              className={`${inputClass} flex-1`}
+            />
+            <button
+              onClick={() => updateStep(step.id, { mode: step.mode === DisplayMode.Hex ? DisplayMode.Text : DisplayMode.Hex })}
+              className="px-1 text-[9px] font-bold text-blue-600 bg-gray-200 rounded"
+            >
+              {step.mode === DisplayMode.Hex ? 'HEX' : 'TXT'}
+            </button>
+          </>
+        );
+      case TestStepType.Expect:
+        return (
+          <>
+            <input
+              value={step.pattern}
+              onChange={(e) => updateStep(step.id, { pattern: e.target.value })}
+              placeholder="正则，如 ID=(?<id>\d+)\r\n"
+              className={`${inputClass} flex-1`}
+            />
+            <span className="text-gray-500">超时</span>
+            <input
+              type="number" min={0} value={step.timeoutMs}
+              onChange={(e) => updateStep(step.id, { timeoutMs: Math.max(0, Number(e.target.value)) })}
+              className="w-16 px-1 border rounded text-center"
+            />
+            <span className="text-gray-500">ms</span>
+          </>
+        );
+      case TestStepType.Assert:
+        return (
+          <>
+            <input
+              value={step.variable}
+              onChange={(e) => updateStep(step.id, { variable: e.target.value })}
+              placeholder="捕获组"
+              title="捕获组序号（如 1）或命名组名称"
+              className={`${inputClass} w-20`}
+            />
+            <select
+              value={step.operator}
+              onChange={(e) => updateStep(step.id, { operator: e.target.value as AssertOperator })}
+              className="bg-white border border-gray-300 rounded py-0.5 px-1 font-mono outline-none"
+            >
+              {Object.values(AssertOperator).map(op => <option key={op} value={op}>{op}</option>)}
+            </select>
+            <input
+              value={step.expected}
+              onChange={(e) => updateStep(step.id, { expected: e.target.value })}
+              placeholder={step.operator === AssertOperator.Match ? '正则' : '期望值'}
+              className={`${inputClass} flex-1`}
+            />
+          </>
+        );
+      case TestStepType.Delay:
+        return (
+          <>
+            <input
+              type="number" min={0} value={step.timeoutMs}
+              onChange={(e) => updateStep(step.id, { timeoutMs: Math.max(0, Number(e.target.value)) })}
+              className="w-16 px-1 border rounded text-center"
+            />
+            <span className="text-gray-500">ms</span>
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col min-h-0 text-[11px]">
+      <div className="flex items-center gap-2 mb-2 shrink-0">
+        <div className="flex bg-gray-100 p-0.5 rounded-md">
+          <button onClick={() => setView('edit')} className={`text-[10px] px-2 py-1 rounded ${view === 'edit' ? 'bg-white shadow-sm text-blue-600 font-bold' : 'text-gray-500'}`}>用例</button>
+          <button onClick={() => setView('result')} className={`text-[10px] px-2 py-1 rounded ${view === 'result' ? 'bg-white shadow-sm text-blue-600 font-bold' : 'text-gray-500'}`}>结果</button>
+        </div>
+        {counts && (
+          <span className="text-gray-500">
+            <span className="text-green-600 font-bold">通过 {counts.passed}</span>
+            <span className="mx-1">·</span>
+            <span className={counts.failed > 0 ? 'text-red-600 font-bold' : ''}>失败 {counts.failed}</span>
+            {counts.skipped > 0 && <><span className="mx-1">·</span>跳过 {counts.skipped}</>}
+            <span className="mx-1">·</span>
+            {(report!.durationMs / 1000).toFixed(2)} s
+            {report!.cancelled && <span className="ml-1 text-orange-500">(已取消)</span>}
+          </span>
+        )}
+        <div className="flex-1"></div>
+        {view === 'edit' ? (
+          <>
+            <button onClick={() => fileInputRef.current?.click()} className="p-1 text-gray-500 hover:text-blue-600 rounded" title="导入用例">
+              <i className="fas fa-file-import"></i>
+            </button>
+            <button onClick={() => download(JSON.stringify(testCases, null, 2), 'application/json', `serial_test_cases_${new Date().getTime()}.json`)} disabled={testCases.length === 0} className="p-1 text-gray-500 hover:text-blue-600 rounded disabled:opacity-30" title="导出用例">
+              <i className="fas fa-file-export"></i>
+            </button>
+            <input type="file" ref={fileInputRef} onChange={handleImport} className="hidden" accept=".json" />
+          </>
+        ) : (
+          <div className="flex bg-white border rounded-md overflow-hidden shadow-sm">
+            <button onClick={() => exportReport('json')} disabled={!report || isRunning} className="px-2 py-1 text-gray-600 hover:bg-gray-50 border-r border-gray-100 disabled:opacity-30">
+              <i className="fas fa-file-code mr-1"></i>导出 JSON
+            </button>
+            <button onClick={() => exportReport('junit')} disabled={!report || isRunning} className="px-2 py-1 text-gray-600 hover:bg-gray-50 disabled:opacity-30">
+              <i className="fas fa-file-alt mr-1"></i>导出 JUnit
+            </button>
+          </div>
+        )}
+        {isRunning ? (
+          <button onClick={onCancel} className="px-4 py-1 bg-red-500 hover:bg-red-600 text-white rounded font-bold shadow-sm">
+            <i className="fas fa-stop mr-1"></i>停止
+          </button>
+        ) : (
+          <button onClick={handleRun} disabled={!isConnected || enabledCount === 0} className="px-4 py-1 bg-green-600 hover:bg-green-700 text-white rounded font-bold shadow-sm disabled:opacity-30">
+            <i className="fas fa-play mr-1"></i>运行测试{enabledCount > 0 ? ` (${enabledCount})` : ''}
+          </button>
+        )}
+      </div>
+
+      {view === 'edit' ? (
+        <div className="flex-1 flex gap-4 min-h-0">
+          <div className="w-48 flex flex-col min-h-0 shrink-0">
+            <div className="flex-1 overflow-y-auto space-y-1 custom-scrollbar">
+              {testCases.map(testCase => (
+                <div
+                  key={testCase.id}
+                  onClick={() => setSelectedId(testCase.id)}
+                  className={`group flex items-center px-2 py-1 rounded cursor-pointer text-xs ${testCase.id === selected?.id ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-50'}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={testCase.enabled}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) => updateCase(testCase.id, { enabled: e.target.checked })}
+                    className="mr-2 rounded text-blue-600 focus:ring-0"
+                    title="参与运行"
+                  />
+                  <span className="flex-1 truncate">{testCase.name || '未命名'}</span>
+                  <span className="mr-1 text-[10px] text-gray-400">{testCase.steps.length}</span>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onUpdate(testCases.filter(c => c.id !== testCase.id)); }}
+                    disabled={isRunning}
+                    className="hidden group-hover:block text-gray-300 hover:text-red-500 disabled:opacity-30"
+                    title="删除"
+                  >
+                    <i className="fas fa-times-circle text-[10px]"></i>
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button onClick={addCase} className="mt-1 py-1 border border-dashed border-gray-300 rounded text-gray-500 hover:border-blue-300 hover:text-blue-600 shrink-0">
+              <i className="fas fa-plus mr-1"></i>添加用例
+            </button>
+          </div>
+
+          {selected ? (
+            <div className="flex-1 flex flex-col min-h-0 min-w-0">
+              <input
+                value={selected.name}
+                onChange={(e) => updateCase(selected.id, { name: e.target.value })}
+                placeholder="用例名称"
+                className="w-48 mb-2 px-2 py-1 border border-gray-300 rounded text-xs outline-none focus:ring-1 focus:ring-blue-500 shrink-0"
+              />
+              <div className="flex-1 overflow-y-auto space-y-1 custom-scrollbar">
+                {selected.steps.map((step, index) => (
+                  <div key={step.id} className="flex items-center gap-1 p-1 bg-gray-50 rounded border border-gray-200">
+                    <span className="w-5 text-center text-gray-400">{index + 1}</span>
+                    <select
+                      value={step.type}
+                      onChange={(e) => updateStep(step.id, { type: e.target.value as TestStepType })}
+                      className="bg-white border border-gray-300 rounded py-0.5 px-1 outline-none"
+                    >
+                      {stepTypes.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                    </select>
+                    {renderStepFields(step)}
+                    <div className="flex-1"></div>
+                    <button onClick={() => moveStep(index, -1)} disabled={index === 0} className="px-1 text-gray-400 hover:text-gray-600 disabled:opacity-30" title="上移">
+                      <i className="fas fa-arrow-up"></i>
+                    </button>
+                    <button onClick={() => moveStep(index, 1)} disabled={index === selected.steps.length - 1} className="px-1 text-gray-400 hover:text-gray-600 disabled:opacity-30" title="下移">
+                      <i className="fas fa-arrow-down"></i>
+                    </button>
+                    <button onClick={() => updateSteps(steps => steps.filter(s => s.id !== step.id))} className="px-1 text-gray-300 hover:text-red-500" title="删除">
+                      <i className="fas fa-times-circle"></i>
+                    </button>
+                  </div>
+                ))}
+                <button onClick={addStep} className="w-full py-1 border border-dashed border-gray-300 rounded text-gray-500 hover:border-blue-300 hover:text-blue-600">
+                  <i className="fas fa-plus mr-1"></i>添加步骤
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-xs text-gray-400">暂无测试用例</div>
+          )}
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto min-h-0 custom-scrollbar">
+          {!report ? (
+            <div className="text-center py-6 text-xs text-gray-400">尚未运行测试</div>
+          ) : (
+            <table className="w-full text-left border-collapse">
+              <thead className="sticky top-0 bg-white text-gray-500">
+                <tr className="border-b">
+                  <th className="py-1 px-2 w-8">#</th>
+                  <th className="py-1 px-2">步骤</th>
+                  <th className="py-1 px-2 w-16">结果</th>
+                  <th className="py-1 px-2 w-20 text-right">耗时</th>
+                  <th className="py-1 px-2">捕获值</th>
+                  <th className="py-1 px-2">说明</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.cases.map(result => (
+                  <React.Fragment key={result.id}>
+                    <tr className="bg-gray-50 border-b">
+                      <td className="py-1 px-2" colSpan={2}><span className="font-bold text-gray-700">{result.name}</span></td>
+                      <td className="py-1 px-2"><StatusBadge status={result.status} /></td>
+                      <td className="py-1 px-2 text-right font-mono text-gray-500">{result.durationMs} ms</td>
+                      <td colSpan={2}></td>
+                    </tr>
+                    {result.steps.map((step, index) => (
+                      <tr key={index} className={`border-b border-gray-100 ${step.status === 'failed' ? 'bg-red-50/50' : ''}`}>
+                        <td className="py-1 px-2 text-gray-400">{index + 1}</td>
+                        <td className="py-1 px-2 font-mono text-gray-700 break-all">{step.description}</td>
+                        <td className="py-1 px-2"><StatusBadge status={step.status} /></td>
+                        <td className="py-1 px-2 text-right font-mono text-gray-500">{step.status === 'passed' || step.status === 'failed' ? `${step.durationMs} ms` : ''}</td>
+                        <td className="py-1 px-2 font-mono text-gray-600 break-all">
+                          {Object.entries(step.captures).filter(([name]) => name !== '0').map(([name, value]) => `${name}=${value}`).join(' ')}
+                        </td>
+                        <td className={`py-1 px-2 break-all ${step.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>{step.message}</td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TestPanel;
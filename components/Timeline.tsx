@@ -0,0 +1,217 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LogEntry, DisplayMode, SessionInfo } from '../types';
+import { uint8ArrayToHex } from '../utils/converters';
+import { LogStore } from '../utils/logStore';
+import VirtualList from './VirtualList';
+
+export interface TimelineEntry {
+  session: SessionInfo;
+  log: LogEntry;
+}
+
+// 合并时间线的只读视图，每次更新生成新对象
+export interface TimelineView {
+  size: number;
+  get(index: number): TimelineEntry;
+}
+
+// 合并时间线的数据源：各会话登记自己的日志缓冲区，有新日志时只通知 Timeline 组件，
+// 不经过 App 的状态，避免任一会话刷新日志时重新渲染所有会话
+export interface TimelineSource {
+  setSessions(sessions: SessionInfo[]): void;
+  register(sessionId: string, store: LogStore): void;
+  remove(sessionId: string): void;
+  // 合并新追加的记录，返回当前视图
+  view(): TimelineView;
+  subscribe(listener: () => void): () => void;
+  reset(): void;
+}
+
+interface TimelineProps {
+  source: TimelineSource;
+  displayMode: DisplayMode;
+  autoScroll: boolean;
+  terminalEndRef: React.RefObject<HTMLDivElement>;
+}
+
+interface MergedEntry extends TimelineEntry {
+  seq: number; // 在所属会话缓冲区中的追加序号，用于判断是否已淘汰
+}
+
+// 按时间戳增量合并多个会话的日志：每次只归并各会话新追加的记录，按时间戳插入已有记录中；
+// 会话列表变化或某个缓冲区被清空、重新解码时整体重建。
+// 已淘汰的记录从头部移除，被较新记录挡住的少量已淘汰记录会稍后移除
+const createTimelineMerger = () => {
+  let entries: MergedEntry[] = [];
+  let start = 0;
+  let cursors = new Map<string, { store: LogStore, generation: number, next: number }>();
+  let sessionsKey = '';
+
+  const reset = () => {
+    entries = [];
+    start = 0;
+    cursors = new Map();
+    sessionsKey = '';
+  };
+
+  // 新记录通常晚于已有记录，直接追加；较早的记录从末尾向前查找位置
+  const insert = (entry: MergedEntry) => {
+    const time = entry.log.timestamp.getTime();
+    let index = entries.length;
+    while (index > start && entries[index - 1].log.timestamp.getTime() > time) index--;
+    if (index === entries.length) entries.push(entry);
+    else entries.splice(index, 0, entry);
+  };
+
+  // 会话数很少，逐个比较各批次的首条即可
+  const mergeBatches = (batches: MergedEntry[][]) => {
+    const heads = batches.map(() => 0);
+    for (;;) {
+      let best = -1;
+      batches.forEach((batch, i) => {
+        if (heads[i] >= batch.length) return;
+        if (best === -1 || batch[heads[i]].log.timestamp.getTime() < batches[best][heads[best]].log.timestamp.getTime()) best = i;
+      });
+      if (best === -1) break;
+      insert(batches[best][heads[best]++]);
+    }
+  };
+
+  const update = (sessions: SessionInfo[], stores: Map<string, LogStore>): TimelineView => {
+    const key = sessions.map(s => `${s.id}:${s.name}:${s.color}`).join('|');
+    const stale = key !== sessionsKey || sessions.some(session => {
+      const cursor = cursors.get(session.id);
+      const store = stores.get(session.id);
+      return cursor ? cursor.store !== store || cursor.generation !== store.generation() : !!store;
+    });
+    if (stale) {
+      reset();
+      sessionsKey = key;
+      sessions.forEach(session => {
+        const store = stores.get(session.id);
+        if (store) cursors.set(session.id, { store, generation: store.generation(), next: store.offset() });
+      });
+    }
+
+    const batches: MergedEntry[][] = [];
+    sessions.forEach(session => {
+      const cursor = cursors.get(session.id);
+      if (!cursor) return;
+      const { store } = cursor;
+      const offset = store.offset();
+      const batch: MergedEntry[] = [];
+      for (let seq = Math.max(cursor.next, offset); seq < offset + store.size(); seq++) {
+        batch.push({ session, log: store.get(seq - offset)!, seq });
+      }
+      cursor.next = offset + store.size();
+      if (batch.length > 0) batches.push(batch);
+    });
+    mergeBatches(batches);
+
+    while (start < entries.length && entries[start].seq < cursors.get(entries[start].session.id)!.store.offset()) start++;
+    if (start > 1024 && start > entries.length / 2) {
+      entries = entries.slice(start);
+      start = 0;
+    }
+
+    const base = entries;
+    const first = start;
+    return { size: base.length - first, get: (index) => base[first + index] };
+  };
+
+  return { update, reset };
+};
+
+export const createTimelineSource = (): TimelineSource => {
+  const merger = createTimelineMerger();
+  const stores = new Map<string, LogStore>();
+  const listeners = new Set<() => void>();
+  let sessions: SessionInfo[] = [];
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  return {
+    setSessions(next) {
+      sessions = next;
+      notify();
+    },
+    register(sessionId, store) {
+      stores.set(sessionId, store);
+      notify();
+    },
+    remove(sessionId) {
+      stores.delete(sessionId);
+      notify();
+    },
+    view: () => merger.update(sessions, stores),
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    reset: merger.reset
+  };
+};
+
+const Timeline: React.FC<TimelineProps> = ({ source, displayMode, autoScroll, terminalEndRef }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => source.subscribe(() => setVersion(v => v + 1)), [source]);
+
+  const timeline = useMemo(() => source.view(), [source, version]);
+
+  const renderEntry = ({ session, log }: TimelineEntry) => (
+    <div className="flex px-1 mb-1 hover:bg-gray-100 rounded border-l-4" style={{ borderColor: session.color }}>
+      <span className="text-gray-400 mx-2 w-24 shrink-0 text-[11px] select-none opacity-80">
+        {log.timestamp.toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit', fractionalDigits: 3 } as any)}
+      </span>
+      <span className="mr-2 w-20 shrink-0 truncate text-[11px] font-sans font-bold self-center" style={{ color: session.color }} title={session.name}>
+        {session.name}
+      </span>
+      <span className={`mr-2 w-10 shrink-0 font-bold text-center rounded text-[9px] py-0.5 self-center ${
+        log.type === 'rx' ? 'bg-emerald-100 text-emerald-700' : 
+        log.type === 'tx' ? 'bg-blue-100 text-blue-700' : 'bg-gray-200 text-gray-700'
+      }`}>
+        {log.type === 'rx' ? 'RX' : log.type === 'tx' ? 'TX' : 'SYS'}
+      </span>
+      <span className={`break-all whitespace-pre-wrap leading-relaxed ${log.type === 'rx' ? 'text-slate-800' : log.type === 'tx' ? 'text-blue-600' : 'text-slate-400 italic'}`}>
+        {log.type !== 'info' && log.type !== 'error' && displayMode === DisplayMode.Hex ? uint8ArrayToHex(log.data) : log.text}
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="flex-1 bg-white rounded-xl overflow-hidden shadow-sm flex flex-col relative border border-gray-200 h-full">
+      <div ref={containerRef} className="flex-1 p-4 overflow-y-auto custom-scrollbar font-mono text-[13px] bg-slate-50/20">
+        {timeline.size === 0 && (
+          <div className="h-full flex flex-col items-center justify-center text-gray-300">
+            <i className="fas fa-stream text-4xl opacity-20 mb-2"></i>
+            <p className="text-xs font-sans">所有会话暂无数据</p>
+          </div>
+        )}
+
+        <VirtualList
+          scrollRef={containerRef}
+          count={timeline.size}
+          getKey={(i) => {
+            const { session, log } = timeline.get(i);
+            return `${session.id}-${log.id}`;
+          }}
+          estimateHeight={30}
+          followOutput={autoScroll}
+          renderRow={(i) => renderEntry(timeline.get(i))}
+        />
+        <div ref={autoScroll ? terminalEndRef : undefined} className="h-4 w-full invisible" />
+      </div>
+
+      <div className="bg-white px-4 py-1.5 text-[10px] text-gray-400 flex justify-between border-t border-gray-100 font-sans select-none">
+        <span>合并时间线 · 共 {timeline.size} 条</span>
+        <span>按时间戳交错显示所有会话</span>
+      </div>
+    </div>
+  );
+};
+
+export default Timeline;
@@ -0,0 +1,140 @@
+import React from 'react';
+import { DisplayMode, SearchMode, TriggerRule } from '../types';
+import { triggerError } from '../utils/triggers';
+
+interface TriggersPanelProps {
+  triggers: TriggerRule[];
+  setTriggers: React.Dispatch<React.SetStateAction<TriggerRule[]>>;
+  counts: Record<string, number>;
+  onResetCount: (id?: string) => void;
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const matchModes: { value: SearchMode, label: string, placeholder: string }[] = [
+  { value: SearchMode.Text, label: '文本', placeholder: '匹配文本, 如 login:' },
+  { value: SearchMode.Regex, label: '正则', placeholder: '匹配 (正则), 如 ID=(\\d+)' },
+  { value: SearchMode.Hex, label: 'HEX', placeholder: '匹配字节, 如 AA 55' }
+];
+
+// 收到匹配的数据后自动发送应答，次数按每次连接计算
+const TriggersPanel: React.FC<TriggersPanelProps> = ({ triggers, setTriggers, counts, onResetCount }) => {
+  const updateTrigger = (id: string, updates: Partial<TriggerRule>) => {
+    setTriggers(prev => prev.map(t => t.id === id ? { ...t, ...updates } : t));
+  };
+
+  const addTrigger = () => {
+    setTriggers(prev => [...prev, {
+      id: newId(),
+      enabled: true,
+      matchMode: SearchMode.Text,
+      pattern: '',
+      reply: '',
+      replyMode: DisplayMode.Text,
+      delayMs: 0,
+      maxCount: 0
+    }]);
+  };
+
+  const inputClass = 'w-full bg-white border border-gray-300 rounded px-2 py-1 text-[11px] font-mono outline-none focus:border-blue-400';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label className="text-sm font-medium text-gray-600">触发规则</label>
+        <button onClick={addTrigger} className="text-xs text-blue-600 hover:text-blue-800">
+          <i className="fas fa-plus mr-1"></i>添加
+        </button>
+      </div>
+      {triggers.length === 0 && (
+        <div className="text-center py-3 text-xs text-gray-400">暂无触发规则</div>
+      )}
+      <div className="space-y-2">
+        {triggers.map(trigger => {
+          const error = trigger.pattern ? triggerError(trigger) : null;
+          const mode = matchModes.find(m => m.value === trigger.matchMode) || matchModes[0];
+          const count = counts[trigger.id] || 0;
+          return (
+            <div key={trigger.id} className={`p-2 rounded border space-y-1 ${trigger.enabled ? 'bg-gray-50 border-gray-200' : 'bg-white border-dashed border-gray-200 opacity-60'}`}>
+              <div className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={trigger.enabled}
+                  onChange={(e) => updateTrigger(trigger.id, { enabled: e.target.checked })}
+                  className="rounded text-blue-600 focus:ring-0"
+                  title="启用"
+                />
+                <select
+                  value={trigger.matchMode}
+                  onChange={(e) => updateTrigger(trigger.id, { matchMode: e.target.value as SearchMode })}
+                  className="bg-white border border-gray-300 rounded py-0.5 px-1 text-[11px] outline-none"
+                >
+                  {matchModes.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                </select>
+                <input
+                  value={trigger.pattern}
+                  onChange={(e) => updateTrigger(trigger.id, { pattern: e.target.value })}
+                  placeholder={mode.placeholder}
+                  className={`${inputClass} ${error ? 'border-red-400' : ''}`}
+                  title={error || undefined}
+                />
+                <button
+                  onClick={() => setTriggers(prev => prev.filter(t => t.id !== trigger.id))}
+                  className="text-gray-300 hover:text-red-500"
+                  title="删除"
+                >
+                  <i className="fas fa-times-circle text-xs"></i>
+                </button>
+              </div>
+              {error && <div className="text-[10px] text-red-500">{error}</div>}
+              <div className="flex items-center gap-1">
+                <textarea
+                  value={trigger.reply}
+                  onChange={(e) => updateTrigger(trigger.id, { reply: e.target.value })}
+                  placeholder={trigger.replyMode === DisplayMode.Hex ? '应答 Hex, 如 AA 55' : trigger.matchMode === SearchMode.Regex ? '应答, 可用 $1 引用捕获组' : '应答内容'}
+                  className={`${inputClass} h-10 resize-none`}
+                />
+                <button
+                  onClick={() => updateTrigger(trigger.id, { replyMode: trigger.replyMode === DisplayMode.Hex ? DisplayMode.Text : DisplayMode.Hex })}
+                  className="px-1 text-[9px] font-bold text-blue-600 bg-gray-200 rounded"
+                >
+                  {trigger.replyMode === DisplayMode.Hex ? 'HEX' : 'TXT'}
+                </button>
+              </div>
+              <div className="flex items-center justify-between text-[11px] text-gray-600">
+                <div className="flex items-center">
+                  延迟
+                  <input
+                    type="number" min={0} value={trigger.delayMs}
+                    onChange={(e) => updateTrigger(trigger.id, { delayMs: Math.max(0, Number(e.target.value)) })}
+                    className="w-14 mx-1 px-1 border rounded text-center"
+                  />
+                  ms
+                </div>
+                <div className="flex items-center" title="每次连接最多触发的次数，0 表示不限">
+                  最多
+                  <input
+                    type="number" min={0} value={trigger.maxCount}
+                    onChange={(e) => updateTrigger(trigger.id, { maxCount: Math.max(0, Number(e.target.value)) })}
+                    className="w-12 mx-1 px-1 border rounded text-center"
+                  />
+                  次
+                </div>
+              </div>
+              <div className="flex items-center justify-between text-[10px] text-gray-400">
+                <span className={trigger.maxCount > 0 && count >= trigger.maxCount ? 'text-amber-600' : ''}>
+                  已触发 {count}{trigger.maxCount > 0 ? ` / ${trigger.maxCount}` : ''} 次
+                </span>
+                <button onClick={() => onResetCount(trigger.id)} disabled={count === 0} className="text-blue-600 hover:text-blue-800 disabled:opacity-30">
+                  清零
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TriggersPanel;
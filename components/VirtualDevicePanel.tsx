@@ -0,0 +1,177 @@
+import React from 'react';
+import { DisplayMode, VirtualDeviceConfig, VirtualReplyRule, VirtualTelemetry } from '../types';
+
+interface VirtualDevicePanelProps {
+  config: VirtualDeviceConfig;
+  setConfig: React.Dispatch<React.SetStateAction<VirtualDeviceConfig>>;
+  disabled: boolean;
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const VirtualDevicePanel: React.FC<VirtualDevicePanelProps> = ({ config, setConfig, disabled }) => {
+  const updateRule = (id: string, updates: Partial<VirtualReplyRule>) => {
+    setConfig(prev => ({ ...prev, rules: prev.rules.map(r => r.id === id ? { ...r, ...updates } : r) }));
+  };
+
+  const updateTelemetry = (id: string, updates: Partial<VirtualTelemetry>) => {
+    setConfig(prev => ({ ...prev, telemetry: prev.telemetry.map(t => t.id === id ? { ...t, ...updates } : t) }));
+  };
+
+  const addRule = () => {
+    setConfig(prev => ({ ...prev, rules: [...prev.rules, { id: newId(), pattern: '', reply: '', mode: DisplayMode.Text }] }));
+  };
+
+  const addTelemetry = () => {
+    setConfig(prev => ({
+      ...prev,
+      telemetry: [...prev.telemetry, { id: newId(), content: 'T={rand:20-30} N={counter}\r\n', mode: DisplayMode.Text, intervalMs: 1000, enabled: true }]
+    }));
+  };
+
+  const inputClass = 'w-full bg-white border border-gray-300 rounded px-2 py-1 text-[11px] font-mono outline-none focus:border-blue-400 disabled:bg-gray-100';
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2 p-3 bg-gray-50 rounded-md border border-gray-200">
+        <label className="flex items-center text-xs text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={config.echo}
+            onChange={(e) => setConfig(prev => ({ ...prev, echo: e.target.checked }))}
+            disabled={disabled}
+            className="mr-2 rounded text-blue-600 focus:ring-0"
+          />
+          <span>回显收到的数据 (Loopback)</span>
+        </label>
+        <div className="flex items-center justify-between text-xs text-gray-600">
+          <span>应答延迟 (毫秒)</span>
+          <input
+            type="number" min={0} value={config.latencyMs}
+            onChange={(e) => setConfig(prev => ({ ...prev, latencyMs: Math.max(0, Number(e.target.value)) }))}
+            disabled={disabled}
+            className="w-20 px-1 border rounded text-center"
+          />
+        </div>
+        <div className="flex items-center justify-between text-xs text-gray-600">
+          <span>分包大小 (字节, 0=不拆分)</span>
+          <input
+            type="number" min={0} value={config.chunkSize}
+            onChange={(e) => setConfig(prev => ({ ...prev, chunkSize: Math.max(0, Number(e.target.value)) }))}
+            disabled={disabled}
+            className="w-20 px-1 border rounded text-center"
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className="text-sm font-medium text-gray-600">应答规则</label>
+          <button onClick={addRule} disabled={disabled} className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-30">
+            <i className="fas fa-plus mr-1"></i>添加
+          </button>
+        </div>
+        <div className="space-y-2">
+          {config.rules.map(rule => (
+            <div key={rule.id} className="p-2 bg-gray-50 rounded border border-gray-200 space-y-1">
+              <div className="flex items-center gap-1">
+                <input
+                  value={rule.pattern}
+                  onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                  disabled={disabled}
+                  placeholder="匹配 (正则), 如 AT\+ID\?"
+                  className={inputClass}
+                />
+                <button
+                  onClick={() => setConfig(prev => ({ ...prev, rules: prev.rules.filter(r => r.id !== rule.id) }))}
+                  disabled={disabled}
+                  className="text-gray-300 hover:text-red-500"
+                >
+                  <i className="fas fa-times-circle text-xs"></i>
+                </button>
+              </div>
+              <div className="flex items-center gap-1">
+                <textarea
+                  value={rule.reply}
+                  onChange={(e) => updateRule(rule.id, { reply: e.target.value })}
+                  disabled={disabled}
+                  placeholder={rule.mode === DisplayMode.Hex ? '应答 Hex, 如 AA 55' : '应答, 可用 $1 引用捕获组'}
+                  className={`${inputClass} h-10 resize-none`}
+                />
+                <button
+                  onClick={() => updateRule(rule.id, { mode: rule.mode === DisplayMode.Hex ? DisplayMode.Text : DisplayMode.Hex })}
+                  disabled={disabled}
+                  className="px-1 text-[9px] font-bold text-blue-600 bg-gray-200 rounded"
+                >
+                  {rule.mode === DisplayMode.Hex ? 'HEX' : 'TXT'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className="text-sm font-medium text-gray-600">周期上报</label>
+          <button onClick={addTelemetry} disabled={disabled} className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-30">
+            <i className="fas fa-plus mr-1"></i>添加
+          </button>
+        </div>
+        <div className="space-y-2">
+          {config.telemetry.map(item => (
+            <div key={item.id} className="p-2 bg-gray-50 rounded border border-gray-200 space-y-1">
+              <div className="flex items-center gap-1">
+                <textarea
+                  value={item.content}
+                  onChange={(e) => updateTelemetry(item.id, { content: e.target.value })}
+                  disabled={disabled}
+                  placeholder="{counter} {time} {rand:0-100}"
+                  className={`${inputClass} h-10 resize-none`}
+                />
+                <button
+                  onClick={() => setConfig(prev => ({ ...prev, telemetry: prev.telemetry.filter(t => t.id !== item.id) }))}
+                  disabled={disabled}
+                  className="text-gray-300 hover:text-red-500"
+                >
+                  <i className="fas fa-times-circle text-xs"></i>
+                </button>
+              </div>
+              <div className="flex items-center justify-between text-[11px] text-gray-600">
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={item.enabled}
+                    onChange={(e) => updateTelemetry(item.id, { enabled: e.target.checked })}
+                    disabled={disabled}
+                    className="mr-1 rounded text-blue-600"
+                  />
+                  启用
+                </label>
+                <div className="flex items-center">
+                  每
+                  <input
+                    type="number" min={10} value={item.intervalMs}
+                    onChange={(e) => updateTelemetry(item.id, { intervalMs: Number(e.target.value) })}
+                    disabled={disabled}
+                    className="w-14 mx-1 px-1 border rounded text-center"
+                  />
+                  ms
+                  <button
+                    onClick={() => updateTelemetry(item.id, { mode: item.mode === DisplayMode.Hex ? DisplayMode.Text : DisplayMode.Hex })}
+                    disabled={disabled}
+                    className="ml-1 px-1 text-[9px] font-bold text-blue-600 bg-gray-200 rounded"
+                  >
+                    {item.mode === DisplayMode.Hex ? 'HEX' : 'TXT'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VirtualDevicePanel;
@@ -0,0 +1,113 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+interface VirtualListProps {
+  scrollRef: React.RefObject<HTMLDivElement>; // 外层滚动容器
+  count: number;
+  getKey: (index: number) => React.Key;
+  renderRow: (index: number) => React.ReactNode;
+  estimateHeight: number; // 未测量行的估计高度（像素）
+  followOutput: boolean;  // 内容变化后保持滚动到底部
+  jumpTo?: { index: number } | null; // 每次传入新对象时把该行滚动到可视区域中间
+}
+
+// 可视区域上下额外渲染的范围，避免快速滚动时出现空白
+const OVERSCAN_PX = 600;
+
+// 窗口化列表：只渲染可视区域附近的行，行高（含外边距）在渲染后测量并按 key 缓存
+const VirtualList: React.FC<VirtualListProps> = ({ scrollRef, count, getKey, renderRow, estimateHeight, followOutput, jumpTo }) => {
+  const heightsRef = useRef(new Map<React.Key, number>());
+  const listRef = useRef<HTMLDivElement>(null);
+  const rowsRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [, setMeasureVersion] = useState(0);
+
+  // 滚动和尺寸变化合并到下一帧处理
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      setViewport(prev => prev.top === el.scrollTop && prev.height === el.clientHeight ? prev : { top: el.scrollTop, height: el.clientHeight });
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+    update();
+    el.addEventListener('scroll', schedule, { passive: true });
+    const observer = new ResizeObserver(schedule);
+    observer.observe(el);
+    return () => {
+      el.removeEventListener('scroll', schedule);
+      observer.disconnect();
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [scrollRef]);
+
+  const heights = heightsRef.current;
+  const heightOf = (index: number) => heights.get(getKey(index)) ?? estimateHeight;
+
+  const from = viewport.top - OVERSCAN_PX;
+  const to = viewport.top + viewport.height + OVERSCAN_PX;
+  let offset = 0;
+  let index = 0;
+  for (; index < count; index++) {
+    const height = heightOf(index);
+    if (offset + height > from) break;
+    offset += height;
+  }
+  const start = index;
+  const startOffset = offset;
+  for (; index < count && offset < to; index++) offset += heightOf(index);
+  const end = index;
+  let totalHeight = offset;
+  for (; index < count; index++) totalHeight += heightOf(index);
+
+  // 测量已渲染行的实际高度，有变化时重新计算布局
+  useLayoutEffect(() => {
+    const rows = rowsRef.current;
+    if (!rows) return;
+    let changed = false;
+    Array.from(rows.children).forEach((child, i) => {
+      const key = getKey(start + i);
+      const height = (child as HTMLElement).offsetHeight;
+      if (heights.get(key) !== height) {
+        heights.set(key, height);
+        changed = true;
+      }
+    });
+    // 清理已不存在的行，避免缓存无限增长
+    if (heights.size > count * 2 + 1000) {
+      const keys = new Set(Array.from({ length: count }, (_, i) => getKey(i)));
+      heights.forEach((_, key) => {
+        if (!keys.has(key)) heights.delete(key);
+      });
+    }
+    if (changed) setMeasureVersion(v => v + 1);
+    const el = scrollRef.current;
+    if (followOutput && el) el.scrollTop = el.scrollHeight;
+  });
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    const list = listRef.current;
+    if (!jumpTo || !el || !list) return;
+    let offset = 0;
+    for (let i = 0; i < Math.min(jumpTo.index, count); i++) offset += heightOf(i);
+    // 列表在滚动容器中的起始位置（容器内边距、列表上方的内容）
+    const listTop = list.getBoundingClientRect().top - el.getBoundingClientRect().top + el.scrollTop;
+    el.scrollTop = Math.max(0, listTop + offset - (el.clientHeight - heightOf(jumpTo.index)) / 2);
+  }, [jumpTo]);
+
+  return (
+    <div ref={listRef} style={{ height: totalHeight, position: 'relative' }}>
+      <div ref={rowsRef} style={{ position: 'absolute', top: startOffset, left: 0, right: 0 }}>
+        {Array.from({ length: end - start }, (_, i) => (
+          <div key={getKey(start + i)} style={{ display: 'flow-root' }}>{renderRow(start + i)}</div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VirtualList;
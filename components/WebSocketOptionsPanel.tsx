@@ -0,0 +1,136 @@
+import React from 'react';
+import { HeartbeatConfig, ReconnectPolicy, WebSocketOptions } from '../types';
+
+interface WebSocketOptionsPanelProps {
+  options: WebSocketOptions;
+  setOptions: React.Dispatch<React.SetStateAction<WebSocketOptions>>;
+  disabled: boolean;
+}
+
+const WebSocketOptionsPanel: React.FC<WebSocketOptionsPanelProps> = ({ options, setOptions, disabled }) => {
+  const updateReconnect = (updates: Partial<ReconnectPolicy>) => {
+    setOptions(prev => ({ ...prev, reconnect: { ...prev.reconnect, ...updates } }));
+  };
+
+  const updateHeartbeat = (updates: Partial<HeartbeatConfig>) => {
+    setOptions(prev => ({ ...prev, heartbeat: { ...prev.heartbeat, ...updates } }));
+  };
+
+  const { reconnect, heartbeat } = options;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-600 mb-1">子协议 (Subprotocols)</label>
+        <input
+          type="text"
+          value={options.protocols}
+          onChange={(e) => setOptions(prev => ({ ...prev, protocols: e.target.value }))}
+          disabled={disabled}
+          placeholder="多个用逗号分隔，可留空"
+          className="w-full bg-gray-50 border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 outline-none font-mono text-xs"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-600 mb-1">自动重连</label>
+        <div className="space-y-2 p-3 bg-gray-50 rounded-md border border-gray-200">
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>初始间隔 (毫秒)</span>
+            <input
+              type="number" min={0} value={reconnect.initialDelayMs}
+              onChange={(e) => updateReconnect({ initialDelayMs: Math.max(0, Number(e.target.value)) })}
+              disabled={disabled}
+              className="w-20 px-1 border rounded text-center"
+            />
+          </div>
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>最大间隔 (毫秒)</span>
+            <input
+              type="number" min={0} value={reconnect.maxDelayMs}
+              onChange={(e) => updateReconnect({ maxDelayMs: Math.max(0, Number(e.target.value)) })}
+              disabled={disabled}
+              className="w-20 px-1 border rounded text-center"
+            />
+          </div>
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>退避倍数</span>
+            <input
+              type="number" min={1} step={0.5} value={reconnect.multiplier}
+              onChange={(e) => updateReconnect({ multiplier: Math.max(1, Number(e.target.value)) })}
+              disabled={disabled}
+              className="w-20 px-1 border rounded text-center"
+            />
+          </div>
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>随机抖动 (%)</span>
+            <input
+              type="number" min={0} max={100} value={Math.round(reconnect.jitter * 100)}
+              onChange={(e) => updateReconnect({ jitter: Math.min(100, Math.max(0, Number(e.target.value))) / 100 })}
+              disabled={disabled}
+              className="w-20 px-1 border rounded text-center"
+            />
+          </div>
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>最大次数 (0=不限)</span>
+            <input
+              type="number" min={0} value={reconnect.maxAttempts}
+              onChange={(e) => updateReconnect({ maxAttempts: Math.max(0, Math.floor(Number(e.target.value))) })}
+              disabled={disabled}
+              className="w-20 px-1 border rounded text-center"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-600 mb-1">心跳保活</label>
+        <div className="space-y-2 p-3 bg-gray-50 rounded-md border border-gray-200">
+          <label className="flex items-center text-xs text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={heartbeat.enabled}
+              onChange={(e) => updateHeartbeat({ enabled: e.target.checked })}
+              disabled={disabled}
+              className="mr-2 rounded text-blue-600 focus:ring-0"
+            />
+            <span>定时发送心跳</span>
+          </label>
+          {heartbeat.enabled && (
+            <>
+              <input
+                type="text"
+                value={heartbeat.payload}
+                onChange={(e) => updateHeartbeat({ payload: e.target.value })}
+                disabled={disabled}
+                placeholder="心跳内容"
+                className="w-full bg-white border border-gray-300 rounded px-2 py-1 text-[11px] font-mono outline-none focus:border-blue-400 disabled:bg-gray-100"
+              />
+              <div className="flex items-center justify-between text-xs text-gray-600">
+                <span>发送间隔 (毫秒)</span>
+                <input
+                  type="number" min={100} value={heartbeat.intervalMs}
+                  onChange={(e) => updateHeartbeat({ intervalMs: Math.max(100, Number(e.target.value)) })}
+                  disabled={disabled}
+                  className="w-20 px-1 border rounded text-center"
+                />
+              </div>
+              <div className="flex items-center justify-between text-xs text-gray-600">
+                <span>无响应超时 (0=不检测)</span>
+                <input
+                  type="number" min={0} value={heartbeat.timeoutMs}
+                  onChange={(e) => updateHeartbeat({ timeoutMs: Math.max(0, Number(e.target.value)) })}
+                  disabled={disabled}
+                  className="w-20 px-1 border rounded text-center"
+                />
+              </div>
+              <p className="text-[11px] text-gray-500">超时内未收到任何数据即判定对端失联并触发重连</p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WebSocketOptionsPanel;
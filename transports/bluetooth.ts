@@ -0,0 +1,321 @@
+import { BluetoothConfig, BluetoothPreset, BluetoothWriteOptions, CommMode, GattCharacteristicProperty, GattServiceInfo, Transport } from '../types';
+import { createTransportEvents, TransportLogger } from './events';
+
+// 蓝牙设备类型定义
+export interface BluetoothDevice {
+  name?: string;
+  gatt?: BluetoothRemoteGATTServer | null;
+  addEventListener(type: string, listener: (event: Event) => void): void;
+  removeEventListener(type: string, listener: (event: Event) => void): void;
+}
+
+interface BluetoothRemoteGATTServer {
+  connect(): Promise<BluetoothRemoteGATTServer>;
+  disconnect(): void;
+  getPrimaryService(service: string): Promise<BluetoothRemoteGATTService>;
+  getPrimaryServices(): Promise<BluetoothRemoteGATTService[]>;
+  connected: boolean;
+}
+
+interface BluetoothRemoteGATTService {
+  uuid: string;
+  getCharacteristic(characteristic: string): Promise<BluetoothRemoteGATTCharacteristic>;
+  getCharacteristics(): Promise<BluetoothRemoteGATTCharacteristic[]>;
+}
+
+interface BluetoothRemoteGATTCharacteristic {
+  uuid: string;
+  properties: Record<GattCharacteristicProperty, boolean>;
+  startNotifications(): Promise<BluetoothRemoteGATTCharacteristic>;
+  writeValue(value: Uint8Array): Promise<void>;
+  writeValueWithResponse?(value: Uint8Array): Promise<void>;
+  writeValueWithoutResponse?(value: Uint8Array): Promise<void>;
+  addEventListener(type: string, listener: (event: any) => void): void;
+  removeEventListener(type: string, listener: (event: any) => void): void;
+  value?: DataView;
+}
+
+// 默认 MTU 为 23，减去 3 字节 ATT 头后可用 20 字节；ATT 单次写入最多 512 字节
+export const BLE_DEFAULT_CHUNK_SIZE = 20;
+const BLE_MAX_CHUNK_SIZE = 512;
+// 协议栈忙（GATT operation already in progress）时的重试次数及间隔
+const BUSY_RETRIES = 5;
+const BUSY_RETRY_DELAY_MS = 20;
+
+const BASE_UUID_SUFFIX = '-0000-1000-8000-00805f9b34fb';
+
+export const BLUETOOTH_PRESETS: BluetoothPreset[] = [
+  {
+    name: 'Nordic UART (NUS)',
+    serviceUUID: '6e400001-b5a3-f393-e0a9-e50e24dcca9e',
+    txCharacteristicUUID: '6e400002-b5a3-f393-e0a9-e50e24dcca9e',
+    rxCharacteristicUUID: '6e400003-b5a3-f393-e0a9-e50e24dcca9e'
+  },
+  {
+    name: 'HM-10 / CC2541 (FFE0)',
+    serviceUUID: '0xffe0',
+    txCharacteristicUUID: '0xffe1',
+    rxCharacteristicUUID: '0xffe1'
+  },
+  {
+    name: 'Microchip 透传 (RN4870/BM70)',
+    serviceUUID: '49535343-fe7d-4ae5-8fa9-9fafd205e455',
+    txCharacteristicUUID: '49535343-8841-43f4-a8d4-ecbe34729bb3',
+    rxCharacteristicUUID: '49535343-1e4d-4bd9-ba61-23c647249616'
+  }
+];
+
+const gattProperties: GattCharacteristicProperty[] = ['read', 'write', 'writeWithoutResponse', 'notify', 'indicate'];
+
+// 处理UUID16格式（例如：0xfff0 或 fff0）
+export const formatUUID = (uuid: string): string => {
+  const text = uuid.trim();
+  const match = text.match(/^(?:0x)?([0-9a-fA-F]{4})$/);
+  if (match) {
+    // 转换为完整UUID格式：0000xxxx-0000-1000-8000-00805f9b34fb
+    const hex = match[1].padStart(4, '0').toLowerCase();
+    return `0000${hex}${BASE_UUID_SUFFIX}`;
+  }
+  // 如果是完整UUID格式，校验后返回（统一为小写）
+  if (!/^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/.test(text)) {
+    throw new Error(`UUID 格式无效: ${uuid}`);
+  }
+  return text.toLowerCase();
+};
+
+// 标准 16 位 UUID 显示为 0xffe0 形式
+export const shortUUID = (uuid: string): string => {
+  const lower = uuid.toLowerCase();
+  if (lower.startsWith('0000') && lower.endsWith(BASE_UUID_SUFFIX)) {
+    return `0x${lower.slice(4, 8)}`;
+  }
+  return lower;
+};
+
+// 比较两个 UUID 是否相同（兼容 16 位简写）
+export const isSameUUID = (a: string, b: string): boolean => {
+  try {
+    return formatUUID(a) === formatUUID(b);
+  } catch (e) {
+    return false;
+  }
+};
+
+const requestBluetoothDevice = (optionalServices: string[]): Promise<BluetoothDevice> => {
+  if (!('bluetooth' in navigator)) {
+    throw new Error('您的浏览器不支持 Web Bluetooth API。请使用 Chrome 或 Edge 浏览器。');
+  }
+  // 接受所有设备；Web Bluetooth 只允许访问 optionalServices 中声明的服务
+  return (navigator as any).bluetooth.requestDevice({ acceptAllDevices: true, optionalServices });
+};
+
+// 选择设备并列出可访问的全部主服务及特征
+export const discoverGattServices = async (extraServiceUUIDs: string[]): Promise<{ device: BluetoothDevice, services: GattServiceInfo[] }> => {
+  const optionalServices = new Set(BLUETOOTH_PRESETS.map(p => formatUUID(p.serviceUUID)));
+  extraServiceUUIDs.filter(uuid => uuid.trim()).forEach(uuid => optionalServices.add(formatUUID(uuid)));
+  const device = await requestBluetoothDevice(Array.from(optionalServices));
+  const server = await device.gatt!.connect();
+  try {
+    let primaryServices: BluetoothRemoteGATTService[];
+    try {
+      primaryServices = await server.getPrimaryServices();
+    } catch (e) {
+      throw new Error('未发现可访问的服务，请在服务 UUID 中填写设备的服务后重新扫描');
+    }
+    const services: GattServiceInfo[] = [];
+    for (const service of primaryServices) {
+      let characteristics: BluetoothRemoteGATTCharacteristic[] = [];
+      try {
+        characteristics = await service.getCharacteristics();
+      } catch (e) {}
+      services.push({
+        uuid: service.uuid,
+        characteristics: characteristics.map(c => ({
+          uuid: c.uuid,
+          properties: gattProperties.filter(p => c.properties[p])
+        }))
+      });
+    }
+    return { device, services };
+  } finally {
+    server.disconnect();
+  }
+};
+
+// device 为服务发现时已选择的设备，为空时弹出选择框
+export const createBluetoothTransport = (config: BluetoothConfig, writeOptions: BluetoothWriteOptions, log: TransportLogger, knownDevice: BluetoothDevice | null): Transport => {
+  const events = createTransportEvents();
+  let device: BluetoothDevice | null = null;
+  let txCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
+  let closing = false;
+  let withoutResponse = false;
+  // 设备对象在重连时复用，关闭时移除本次连接添加的事件监听，避免断开事件重复触发
+  let detachListeners: (() => void) | null = null;
+  const chunkSize = Math.min(BLE_MAX_CHUNK_SIZE, Math.max(1, Math.floor(writeOptions.chunkSize) || BLE_DEFAULT_CHUNK_SIZE));
+  const maxInFlight = Math.max(1, Math.floor(writeOptions.maxInFlight) || 1);
+
+  // GATT 同一时刻只能执行一个操作，所有分包按顺序串行写入；
+  // 写入队列长度受 maxInFlight 限制，超过时 write() 等待
+  let writeChain: Promise<void> = Promise.resolve();
+  const inFlight: Promise<void>[] = [];
+
+  const writeChunk = async (characteristic: BluetoothRemoteGATTCharacteristic, chunk: Uint8Array) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        if (withoutResponse && characteristic.writeValueWithoutResponse) {
+          await characteristic.writeValueWithoutResponse(chunk);
+        } else if (!withoutResponse && characteristic.writeValueWithResponse) {
+          await characteristic.writeValueWithResponse(chunk);
+        } else {
+          await characteristic.writeValue(chunk);
+        }
+        return;
+      } catch (err: any) {
+        if (attempt >= BUSY_RETRIES || !/in progress/i.test(err.message || '')) throw err;
+        await new Promise(resolve => setTimeout(resolve, BUSY_RETRY_DELAY_MS));
+      }
+    }
+  };
+
+  return {
+    mode: CommMode.Bluetooth,
+    name: '蓝牙',
+    capabilities: { textFrames: false, autoReconnect: false, modemSignals: false },
+
+    async open() {
+      if (!config.serviceUUID || !config.txCharacteristicUUID || !config.rxCharacteristicUUID) {
+        throw new Error('请先配置蓝牙服务 UUID、TX 特征 UUID 和 RX 特征 UUID');
+      }
+
+      const serviceUUID = formatUUID(config.serviceUUID);
+      const txUUID = formatUUID(config.txCharacteristicUUID);
+      const rxUUID = formatUUID(config.rxCharacteristicUUID);
+
+      const selectedDevice = knownDevice || await requestBluetoothDevice([serviceUUID]);
+      closing = false;
+
+      log('info', `正在连接蓝牙设备: ${selectedDevice.name || '未知设备'}`);
+
+      // 连接到 GATT 服务器
+      const server = await selectedDevice.gatt!.connect();
+      log('info', 'GATT 服务器已连接');
+
+      let service: BluetoothRemoteGATTService;
+      try {
+        service = await server.getPrimaryService(serviceUUID);
+      } catch (e) {
+        server.disconnect();
+        throw new Error(`设备上没有服务 ${shortUUID(serviceUUID)}`);
+      }
+      log('info', '已获取服务');
+
+      const getCharacteristic = async (uuid: string, label: string) => {
+        try {
+          return await service.getCharacteristic(uuid);
+        } catch (e) {
+          server.disconnect();
+          throw new Error(`服务 ${shortUUID(serviceUUID)} 中没有${label}特征 ${shortUUID(uuid)}`);
+        }
+      };
+
+      // 获取 TX 特征（发送）
+      const tx = await getCharacteristic(txUUID, ' TX ');
+      if (!tx.properties.write && !tx.properties.writeWithoutResponse) {
+        server.disconnect();
+        throw new Error(`TX 特征 ${shortUUID(txUUID)} 不支持写入`);
+      }
+      log('info', '已获取 TX 特征');
+
+      // 获取 RX 特征（接收）
+      const rx = await getCharacteristic(rxUUID, ' RX ');
+      if (!rx.properties.notify && !rx.properties.indicate) {
+        server.disconnect();
+        throw new Error(`RX 特征 ${shortUUID(rxUUID)} 不支持通知 (Notify/Indicate)`);
+      }
+      log('info', '已获取 RX 特征');
+
+      // 订阅 RX 特征的通知
+      await rx.startNotifications();
+      log('info', '已启用 RX 通知');
+
+      const handleValue = (event: any) => {
+        const value: DataView = event.target.value;
+        events.emitData(new Uint8Array(value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength)));
+      };
+      const handleDisconnect = () => {
+        if (closing || device !== selectedDevice) return;
+        detachListeners?.();
+        device = null;
+        txCharacteristic = null;
+        events.emitClose(new Error('蓝牙设备已断开'));
+      };
+      detachListeners?.();
+      rx.addEventListener('characteristicvaluechanged', handleValue);
+      selectedDevice.addEventListener('gattserverdisconnected', handleDisconnect);
+      detachListeners = () => {
+        rx.removeEventListener('characteristicvaluechanged', handleValue);
+        selectedDevice.removeEventListener('gattserverdisconnected', handleDisconnect);
+        detachListeners = null;
+      };
+
+      // 特征不支持所选写入方式时自动切换
+      withoutResponse = writeOptions.withoutResponse ? tx.properties.writeWithoutResponse : !tx.properties.write;
+      if (withoutResponse !== writeOptions.withoutResponse) {
+        log('info', `TX 特征不支持${writeOptions.withoutResponse ? '无应答' : '有应答'}写入，已改用${withoutResponse ? '无应答' : '有应答'}写入`);
+      }
+      writeChain = Promise.resolve();
+      inFlight.length = 0;
+
+      device = selectedDevice;
+      txCharacteristic = tx;
+      log('info', `蓝牙已连接: ${selectedDevice.name || '未知设备'}，单包 ${chunkSize} 字节，${withoutResponse ? '无应答' : '有应答'}写入`);
+    },
+
+    async close() {
+      closing = true;
+      detachListeners?.();
+      if (device && device.gatt) {
+        try {
+          device.gatt.disconnect();
+        } catch (e) {}
+      }
+      device = null;
+      txCharacteristic = null;
+    },
+
+    async write(data) {
+      if (!txCharacteristic) throw new Error('蓝牙未连接');
+      const characteristic = txCharacteristic;
+      let failure: Error | null = null;
+      let last: Promise<void> = Promise.resolve();
+      for (let i = 0; i < data.length && !failure; i += chunkSize) {
+        // 队列已满，等待最早的分包写完
+        while (inFlight.length >= maxInFlight) {
+          await inFlight[0];
+        }
+        const chunk = data.slice(i, i + chunkSize);
+        const op = writeChain.then(async () => {
+          // 前一包失败后，后续分包不再写入
+          if (failure) return;
+          try {
+            await writeChunk(characteristic, chunk);
+          } catch (err: any) {
+            failure = err;
+          }
+        });
+        writeChain = op;
+        inFlight.push(op);
+        op.then(() => {
+          inFlight.splice(inFlight.indexOf(op), 1);
+        });
+        last = op;
+      }
+      // 等待本次数据全部写完
+      await last;
+      if (failure) throw failure;
+    },
+
+    onData: events.onData,
+    onClose: events.onClose
+  };
+};
@@ -0,0 +1,85 @@
+import { CommMode, DataSource, Transport, TransportCapabilities } from '../types';
+import { createTransportEvents, TransportLogger } from './events';
+
+const fromSerial: DataSource = { label: '串口→WS', direction: 'rx' };
+const fromWebSocket: DataSource = { label: 'WS→串口', direction: 'tx' };
+
+// 串口 ⇄ WebSocket 桥接：两端收到的数据互相转发，同时交给终端显示
+export const createBridgeTransport = (serial: Transport, websocket: Transport, log: TransportLogger): Transport => {
+  const events = createTransportEvents();
+  let isOpen = false;
+  // 串口同一时刻只能有一个写入者，转发和手动发送按顺序排队
+  let serialChain: Promise<void> = Promise.resolve();
+  // 首次打开需要用户选择串口，成功后才允许自动重连
+  const capabilities: TransportCapabilities = { textFrames: false, autoReconnect: false, modemSignals: true };
+
+  const writeSerial = (data: Uint8Array) => {
+    const op = serialChain.then(() => serial.write(data));
+    serialChain = op.catch(() => {});
+    return op;
+  };
+
+  serial.onData((data) => {
+    if (!isOpen) return;
+    events.emitData(data, fromSerial);
+    websocket.write(data).catch((err: any) => log('error', `转发到 WebSocket 失败: ${err.message}`));
+  });
+
+  websocket.onData((data) => {
+    if (!isOpen) return;
+    events.emitData(data, fromWebSocket);
+    writeSerial(data).catch((err: any) => log('error', `转发到串口失败: ${err.message}`));
+  });
+
+  // 任一端断开时关闭另一端，整体按 WebSocket 的重连策略重连
+  const handleSideClose = (other: Transport, name: string) => async (error?: Error) => {
+    if (!isOpen) return;
+    isOpen = false;
+    await other.close();
+    events.emitClose(new Error(`${name} ${error ? error.message : '已断开'}`));
+  };
+  serial.onClose(handleSideClose(websocket, '串口'));
+  websocket.onClose(handleSideClose(serial, 'WebSocket'));
+
+  return {
+    mode: CommMode.Bridge,
+    name: '桥接',
+    capabilities,
+    reconnectPolicy: websocket.reconnectPolicy,
+
+    async open() {
+      await serial.open();
+      try {
+        await websocket.open();
+      } catch (err) {
+        await serial.close();
+        throw err;
+      }
+      isOpen = true;
+      capabilities.autoReconnect = true;
+      log('info', '桥接已建立: 串口 ⇄ WebSocket');
+    },
+
+    async close() {
+      isOpen = false;
+      await websocket.close();
+      await serial.close();
+    },
+
+    // 手动发送的数据发往串口设备
+    write(data) {
+      return writeSerial(data);
+    },
+
+    setSignals(signals) {
+      return serial.setSignals!(signals);
+    },
+
+    getSignals() {
+      return serial.getSignals!();
+    },
+
+    onData: events.onData,
+    onClose: events.onClose
+  };
+};
@@ -0,0 +1,34 @@
+import { DataSource } from '../types';
+
+// 各链路共用的数据/断开事件分发
+
+type Listener<T extends unknown[]> = (...args: T) => void;
+
+const createListenerSet = <T extends unknown[]>() => {
+  const listeners = new Set<Listener<T>>();
+  return {
+    add(listener: Listener<T>) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    emit(...args: T) {
+      listeners.forEach(listener => listener(...args));
+    }
+  };
+};
+
+export const createTransportEvents = () => {
+  const data = createListenerSet<[Uint8Array, DataSource | undefined]>();
+  const close = createListenerSet<[Error | undefined]>();
+  return {
+    onData: (listener: (data: Uint8Array, source?: DataSource) => void) => data.add(listener),
+    onClose: (listener: (error?: Error) => void) => close.add(listener),
+    emitData: (value: Uint8Array, source?: DataSource) => data.emit(value, source),
+    emitClose: (error?: Error) => close.emit(error)
+  };
+};
+
+// 链路在连接过程中输出的日志
+export type TransportLogger = (type: 'info' | 'error', text: string) => void;
@@ -0,0 +1,39 @@
+import { BluetoothConfig, BluetoothWriteOptions, CommMode, SerialConfig, TextEncoding, Transport, VirtualDeviceConfig, WebSocketOptions } from '../types';
+import { TransportLogger } from './events';
+import { createSerialTransport, SerialPortOptions } from './serial';
+import { createWebSocketTransport } from './websocket';
+import { BluetoothDevice, createBluetoothTransport } from './bluetooth';
+import { createVirtualTransport } from './virtual';
+import { createBridgeTransport } from './bridge';
+
+export type { TransportLogger } from './events';
+export type { SerialPort, SerialPortOptions } from './serial';
+export { formatSerialPortInfo, getGrantedSerialPorts, watchSerialPorts } from './serial';
+export type { BluetoothDevice } from './bluetooth';
+export { BLE_DEFAULT_CHUNK_SIZE, BLUETOOTH_PRESETS, discoverGattServices, isSameUUID, shortUUID } from './bluetooth';
+
+// 创建链路所需的全部设置，各链路只读取自己需要的部分
+export interface TransportSettings {
+  serialConfig: SerialConfig;
+  serialPort: SerialPortOptions;
+  wsUrl: string;
+  wsOptions: WebSocketOptions;
+  bluetooth: BluetoothConfig;
+  bluetoothDevice: BluetoothDevice | null; // 服务发现时已选择的设备
+  bluetoothWrite: BluetoothWriteOptions;
+  virtualDevice: VirtualDeviceConfig;
+  encoding: TextEncoding; // 会话的字符编码
+  log: TransportLogger;
+}
+
+const factories: Record<CommMode, (settings: TransportSettings) => Transport> = {
+  [CommMode.Serial]: (s) => createSerialTransport(s.serialConfig, s.log, s.serialPort),
+  [CommMode.WebSocket]: (s) => createWebSocketTransport(s.wsUrl, s.wsOptions, s.log),
+  [CommMode.Bluetooth]: (s) => createBluetoothTransport(s.bluetooth, s.bluetoothWrite, s.log, s.bluetoothDevice),
+  [CommMode.Virtual]: (s) => createVirtualTransport(s.virtualDevice, s.encoding, s.log),
+  [CommMode.Bridge]: (s) => createBridgeTransport(factories[CommMode.Serial](s), factories[CommMode.WebSocket](s), s.log)
+};
+
+export const createTransport = (mode: CommMode, settings: TransportSettings): Transport => {
+  return factories[mode](settings);
+};
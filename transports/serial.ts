@@ -0,0 +1,244 @@
+import { CommMode, SerialConfig, SerialInputSignals, SerialOutputSignals, SerialPortFilterConfig, Transport, TransportCapabilities } from '../types';
+import { createTransportEvents, TransportLogger } from './events';
+
+export interface SerialPortInfo {
+  usbVendorId?: number;
+  usbProductId?: number;
+}
+
+export interface SerialPort extends EventTarget {
+  readonly readable: ReadableStream<Uint8Array> | null;
+  readonly writable: WritableStream<Uint8Array> | null;
+  readonly connected?: boolean;
+  getInfo(): SerialPortInfo;
+  open(options: {
+    baudRate: number;
+    dataBits?: number;
+    stopBits?: number;
+    parity?: string;
+    bufferSize?: number;
+    flowControl?: string;
+  }): Promise<void>;
+  close(): Promise<void>;
+  setSignals(signals: SerialOutputSignals): Promise<void>;
+  getSignals(): Promise<SerialInputSignals>;
+}
+
+interface Serial extends EventTarget {
+  getPorts(): Promise<SerialPort[]>;
+  requestPort(options?: { filters?: SerialPortInfo[] }): Promise<SerialPort>;
+}
+
+// 串口设备选择及重连选项
+export interface SerialPortOptions {
+  port: SerialPort | null; // 已授权的串口，为空时弹出选择框
+  filter: SerialPortFilterConfig;
+  autoReconnect: boolean; // USB 重新插入后自动打开同一设备
+}
+
+const getSerial = (): Serial | null => {
+  return 'serial' in navigator ? (navigator as any).serial : null;
+};
+
+// 格式化 USB VID/PID，例如 1A86:7523
+export const formatSerialPortInfo = (info: SerialPortInfo): string => {
+  if (info.usbVendorId === undefined) return '非 USB 设备';
+  const hex = (id?: number) => id === undefined ? '????' : id.toString(16).toUpperCase().padStart(4, '0');
+  return `USB ${hex(info.usbVendorId)}:${hex(info.usbProductId)}`;
+};
+
+// 获取已授权的串口列表
+export const getGrantedSerialPorts = async (): Promise<SerialPort[]> => {
+  const serial = getSerial();
+  return serial ? serial.getPorts() : [];
+};
+
+// 监听串口插入/拔出，返回取消监听函数
+export const watchSerialPorts = (listener: () => void): () => void => {
+  const serial = getSerial();
+  if (!serial) return () => {};
+  serial.addEventListener('connect', listener);
+  serial.addEventListener('disconnect', listener);
+  return () => {
+    serial.removeEventListener('connect', listener);
+    serial.removeEventListener('disconnect', listener);
+  };
+};
+
+// 解析十六进制的 VID/PID，留空表示不限
+const parseUsbId = (value: string, label: string): number | undefined => {
+  const text = value.trim().replace(/^0x/i, '');
+  if (!text) return undefined;
+  if (!/^[0-9a-fA-F]{1,4}$/.test(text)) throw new Error(`无效的 ${label}: ${value}`);
+  return parseInt(text, 16);
+};
+
+const buildFilters = (filter: SerialPortFilterConfig): SerialPortInfo[] => {
+  const usbVendorId = parseUsbId(filter.usbVendorId, 'VID');
+  const usbProductId = parseUsbId(filter.usbProductId, 'PID');
+  if (usbVendorId === undefined) {
+    if (usbProductId !== undefined) throw new Error('按 PID 过滤时必须同时填写 VID');
+    return [];
+  }
+  return [usbProductId === undefined ? { usbVendorId } : { usbVendorId, usbProductId }];
+};
+
+// 同一 USB 设备重新枚举后会得到新的 SerialPort 对象，按 VID/PID 识别
+const isSameDevice = (a: SerialPortInfo, b: SerialPortInfo): boolean => {
+  return a.usbVendorId !== undefined && a.usbVendorId === b.usbVendorId && a.usbProductId === b.usbProductId;
+};
+
+export const createSerialTransport = (config: SerialConfig, log: TransportLogger, options: SerialPortOptions): Transport => {
+  const events = createTransportEvents();
+  let port: SerialPort | null = null;
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  let keepReading = false;
+  let lastPort: SerialPort | null = null; // 上次打开的设备，重连时复用
+  let cancelWait: (() => void) | null = null;
+  // 重连时无法弹出选择框，成功打开过设备后才允许自动重连
+  const capabilities: TransportCapabilities = { textFrames: false, autoReconnect: false, modemSignals: true };
+
+  // 设备被拔出：停止读取并通知上层
+  const handleLost = async (selectedPort: SerialPort) => {
+    if (!keepReading || port !== selectedPort) return;
+    keepReading = false;
+    getSerial()?.removeEventListener('disconnect', handleDisconnect);
+    if (reader) {
+      try { await reader.cancel(); } catch (e) {}
+      reader = null;
+    }
+    try { await selectedPort.close(); } catch (e) {}
+    port = null;
+    events.emitClose(new Error('设备已断开'));
+  };
+
+  const handleDisconnect = (event: Event) => {
+    if (port && event.target === port) handleLost(port);
+  };
+
+  // 等待上次的设备重新插入
+  const waitForDevice = (serial: Serial, previous: SerialPort) => {
+    return new Promise<SerialPort>((resolve, reject) => {
+      const matches = (candidate: SerialPort) =>
+        candidate.connected !== false && (candidate === previous || isSameDevice(candidate.getInfo(), previous.getInfo()));
+      const finish = () => {
+        serial.removeEventListener('connect', onConnect);
+        cancelWait = null;
+      };
+      const onConnect = (event: Event) => {
+        const candidate = event.target as SerialPort;
+        if (!matches(candidate)) return;
+        finish();
+        resolve(candidate);
+      };
+      cancelWait = () => {
+        finish();
+        reject(new Error('已取消等待设备'));
+      };
+      // 先注册监听再查询，避免遗漏查询期间插入的设备
+      serial.addEventListener('connect', onConnect);
+      serial.getPorts().then(ports => {
+        const found = ports.find(matches);
+        if (found && cancelWait) {
+          finish();
+          resolve(found);
+        } else if (cancelWait) {
+          log('info', `等待设备重新插入 (${formatSerialPortInfo(previous.getInfo())})...`);
+        }
+      }, () => {});
+    });
+  };
+
+  const readLoop = async (selectedPort: SerialPort) => {
+    while (selectedPort.readable && keepReading) {
+      const currentReader = selectedPort.readable.getReader();
+      reader = currentReader;
+      try {
+        while (true) {
+          const { value, done } = await currentReader.read();
+          if (done) break;
+          if (value) events.emitData(value);
+        }
+      } catch (error) {
+        // 帧错误、溢出等非致命错误后 readable 仍可用，继续读取
+        console.error('Read error:', error);
+      } finally {
+        currentReader.releaseLock();
+      }
+    }
+    // 非主动关闭时读取结束，说明设备已断开（如 USB 被拔出）
+    reader = null;
+    handleLost(selectedPort);
+  };
+
+  return {
+    mode: CommMode.Serial,
+    name: '串口',
+    capabilities,
+
+    async open() {
+      const serial = getSerial();
+      if (!serial) {
+        throw new Error('您的浏览器不支持 Web Serial API。');
+      }
+      if (!Number.isInteger(config.baudRate) || config.baudRate <= 0) {
+        throw new Error(`无效的波特率: ${config.baudRate}`);
+      }
+      const selectedPort = lastPort
+        ? await waitForDevice(serial, lastPort)
+        : options.port || await serial.requestPort({ filters: buildFilters(options.filter) });
+      await selectedPort.open({
+        baudRate: config.baudRate,
+        dataBits: config.dataBits,
+        stopBits: config.stopBits,
+        parity: config.parity,
+        bufferSize: config.bufferSize,
+        flowControl: config.flowControl
+      });
+      port = selectedPort;
+      lastPort = selectedPort;
+      capabilities.autoReconnect = options.autoReconnect;
+      keepReading = true;
+      serial.addEventListener('disconnect', handleDisconnect);
+      log('info', `已连接 ${formatSerialPortInfo(selectedPort.getInfo())}: ${config.baudRate} bps, ${config.dataBits}${config.parity[0].toUpperCase()}${config.stopBits}${config.flowControl === 'hardware' ? ', 硬件流控' : ''}`);
+      readLoop(selectedPort);
+    },
+
+    async close() {
+      keepReading = false;
+      if (cancelWait) cancelWait();
+      getSerial()?.removeEventListener('disconnect', handleDisconnect);
+      if (reader) {
+        try { await reader.cancel(); } catch (e) {}
+        reader = null;
+      }
+      if (port) {
+        try { await port.close(); } catch (e) {}
+        port = null;
+      }
+    },
+
+    async write(data) {
+      if (!port || !port.writable) throw new Error('串口未连接');
+      const writer = port.writable.getWriter();
+      try {
+        await writer.write(data);
+      } finally {
+        writer.releaseLock();
+      }
+    },
+
+    async setSignals(signals) {
+      if (!port) throw new Error('串口未连接');
+      await port.setSignals(signals);
+    },
+
+    async getSignals() {
+      if (!port) throw new Error('串口未连接');
+      return port.getSignals();
+    },
+
+    onData: events.onData,
+    onClose: events.onClose
+  };
+};
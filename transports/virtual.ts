@@ -0,0 +1,117 @@
+import { CommMode, DisplayMode, TextEncoding, Transport, VirtualDeviceConfig } from '../types';
+import { hexToUint8Array, stringToUint8Array } from '../utils/converters';
+import { createTextDecoder } from '../utils/encoding';
+import { createTransportEvents, TransportLogger } from './events';
+
+// 规则匹配缓冲区上限，避免长时间运行后无限增长
+const MAX_MATCH_BUFFER = 4096;
+
+// 展开周期上报内容中的占位符
+const expandTemplate = (content: string, counter: number): string => {
+  return content
+    .replace(/\{counter\}/g, String(counter))
+    .replace(/\{time\}/g, new Date().toLocaleTimeString([], { hour12: false }))
+    .replace(/\{rand:(-?\d+)-(-?\d+)\}/g, (_, min, max) => {
+      const lo = Number(min);
+      const hi = Number(max);
+      return String(lo + Math.floor(Math.random() * (hi - lo + 1)));
+    });
+};
+
+const encodeContent = (content: string, mode: DisplayMode, encoding: TextEncoding): Uint8Array => {
+  return mode === DisplayMode.Hex ? hexToUint8Array(content) : stringToUint8Array(content, encoding);
+};
+
+// encoding 为会话的字符编码，应答和上报内容按它编码，收到的数据按它解码后匹配规则
+export const createVirtualTransport = (config: VirtualDeviceConfig, encoding: TextEncoding, log: TransportLogger): Transport => {
+  const events = createTransportEvents();
+  let isOpen = false;
+  let matchBuffer = '';
+  // ASCII 解码会把控制字符换成显示符号，匹配时按字节原样解码
+  const matchEncoding = encoding === TextEncoding.ASCII ? TextEncoding.Latin1 : encoding;
+  let decoder = createTextDecoder(matchEncoding);
+  let lastDelivery = 0;
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  const intervals: ReturnType<typeof setInterval>[] = [];
+
+  // 按配置的延迟和分包大小把数据“发”给上位机，保持先后顺序
+  const deliver = (data: Uint8Array) => {
+    if (data.length === 0) return;
+    const chunkSize = config.chunkSize > 0 ? config.chunkSize : data.length;
+    const at = Math.max(Date.now() + config.latencyMs, lastDelivery);
+    lastDelivery = at;
+    for (let i = 0; i < data.length; i += chunkSize) {
+      const chunk = data.slice(i, i + chunkSize);
+      // 每个分包单独触发一次，模拟多次读取
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        if (isOpen) events.emitData(chunk);
+      }, at - Date.now() + i / chunkSize);
+      timers.add(timer);
+    }
+  };
+
+  const applyRules = (data: Uint8Array) => {
+    if (config.rules.length === 0) return;
+    matchBuffer = (matchBuffer + decoder.decode(data, { stream: true })).slice(-MAX_MATCH_BUFFER);
+    for (const rule of config.rules) {
+      if (!rule.pattern) continue;
+      let regex: RegExp;
+      try {
+        regex = new RegExp(rule.pattern);
+      } catch (e) {
+        continue;
+      }
+      const match = regex.exec(matchBuffer);
+      if (!match) continue;
+      // 已匹配的内容不再参与后续匹配
+      matchBuffer = matchBuffer.slice(match.index + match[0].length);
+      try {
+        deliver(encodeContent(match[0].replace(regex, rule.reply), rule.mode, encoding));
+      } catch (err: any) {
+        log('error', `虚拟设备规则 "${rule.pattern}" 应答无效: ${err.message}`);
+      }
+    }
+  };
+
+  return {
+    mode: CommMode.Virtual,
+    name: '虚拟设备',
+    capabilities: { textFrames: false, autoReconnect: false, modemSignals: false },
+
+    async open() {
+      isOpen = true;
+      matchBuffer = '';
+      decoder = createTextDecoder(matchEncoding);
+      lastDelivery = 0;
+      config.telemetry.filter(t => t.enabled && t.content && t.intervalMs > 0).forEach(t => {
+        let counter = 0;
+        intervals.push(setInterval(() => {
+          try {
+            deliver(encodeContent(expandTemplate(t.content, counter++), t.mode, encoding));
+          } catch (err: any) {
+            log('error', `虚拟设备上报内容无效: ${err.message}`);
+          }
+        }, t.intervalMs));
+      });
+      log('info', `虚拟设备已启动${config.echo ? ' (回显)' : ''}，延迟 ${config.latencyMs} ms`);
+    },
+
+    async close() {
+      isOpen = false;
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+      intervals.forEach(interval => clearInterval(interval));
+      intervals.length = 0;
+    },
+
+    async write(data) {
+      if (!isOpen) throw new Error('虚拟设备未启动');
+      if (config.echo) deliver(data);
+      applyRules(data);
+    },
+
+    onData: events.onData,
+    onClose: events.onClose
+  };
+};
@@ -0,0 +1,142 @@
+import { CommMode, Transport, WebSocketOptions } from '../types';
+import { createTransportEvents, TransportLogger } from './events';
+
+// 心跳检查周期
+const HEARTBEAT_TICK_MS = 500;
+
+const parseProtocols = (protocols: string): string[] => {
+  return protocols.split(',').map(p => p.trim()).filter(p => p.length > 0);
+};
+
+export const createWebSocketTransport = (url: string, options: WebSocketOptions, log: TransportLogger): Transport => {
+  const events = createTransportEvents();
+  let ws: WebSocket | null = null;
+  // 正在连接的套接字，连接完成前关闭时需要取消
+  let pending: { socket: WebSocket, reject: (err: Error) => void } | null = null;
+  let closing = false;
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  const stopHeartbeat = () => {
+    if (heartbeatTimer) {
+      clearInterval(heartbeatTimer);
+      heartbeatTimer = null;
+    }
+  };
+
+  // 网关常会断开空闲链路，定时发送心跳；超时未收到任何数据则主动断开，交给重连处理
+  const startHeartbeat = (socket: WebSocket, lastReceived: () => number) => {
+    const { enabled, intervalMs, timeoutMs, payload } = options.heartbeat;
+    if (!enabled || intervalMs <= 0) return;
+    let lastSent = Date.now();
+    heartbeatTimer = setInterval(() => {
+      const now = Date.now();
+      if (timeoutMs > 0 && now - lastReceived() > timeoutMs) {
+        stopHeartbeat();
+        // 对端可能已失联，不再等待关闭握手
+        socket.onclose = null;
+        socket.close();
+        ws = null;
+        events.emitClose(new Error(`心跳超时，${timeoutMs} ms 内未收到数据`));
+        return;
+      }
+      if (now - lastSent >= intervalMs && socket.readyState === WebSocket.OPEN) {
+        lastSent = now;
+        socket.send(payload);
+      }
+    }, Math.min(HEARTBEAT_TICK_MS, intervalMs));
+  };
+
+  return {
+    mode: CommMode.WebSocket,
+    name: 'WebSocket',
+    capabilities: { textFrames: true, autoReconnect: true, modemSignals: false },
+    reconnectPolicy: options.reconnect,
+
+    open() {
+      return new Promise<void>((resolve, reject) => {
+        if (!url) {
+          reject(new Error('请输入 WebSocket 服务器地址'));
+          return;
+        }
+        closing = false;
+        const protocols = parseProtocols(options.protocols);
+        let socket: WebSocket;
+        try {
+          socket = new WebSocket(url, protocols.length > 0 ? protocols : undefined);
+        } catch (err: any) {
+          reject(new Error(`地址无效: ${err.message}`));
+          return;
+        }
+        socket.binaryType = 'arraybuffer';
+        pending = { socket, reject };
+        let opened = false;
+        let lastReceived = Date.now();
+
+        socket.onopen = () => {
+          pending = null;
+          opened = true;
+          ws = socket;
+          lastReceived = Date.now();
+          log('info', `WebSocket 已连接: ${url}${socket.protocol ? ` (子协议: ${socket.protocol})` : ''}`);
+          startHeartbeat(socket, () => lastReceived);
+          resolve();
+        };
+
+        socket.onmessage = (event) => {
+          lastReceived = Date.now();
+          // 原样转发数据，文本帧按 UTF-8 转为字节
+          if (event.data instanceof ArrayBuffer) {
+            events.emitData(new Uint8Array(event.data));
+          } else if (typeof event.data === 'string') {
+            events.emitData(new TextEncoder().encode(event.data));
+          }
+        };
+
+        socket.onerror = () => {
+          if (opened) log('error', 'WebSocket 错误');
+        };
+
+        socket.onclose = (event) => {
+          if (!opened) {
+            pending = null;
+            reject(new Error(`无法连接到 ${url}`));
+            return;
+          }
+          if (ws === socket) {
+            ws = null;
+            stopHeartbeat();
+          }
+          if (!closing) events.emitClose(event.code !== 1000 ? new Error(`关闭码 ${event.code}${event.reason ? ` ${event.reason}` : ''}`) : undefined);
+        };
+      });
+    },
+
+    async close() {
+      closing = true;
+      stopHeartbeat();
+      if (pending) {
+        const { socket, reject } = pending;
+        pending = null;
+        socket.onopen = null;
+        socket.onmessage = null;
+        socket.onerror = null;
+        socket.onclose = null;
+        socket.close();
+        reject(new Error('连接已取消'));
+      }
+      if (ws) {
+        ws.close();
+        ws = null;
+      }
+    },
+
+    async write(data, text) {
+      if (!ws || ws.readyState !== WebSocket.OPEN) throw new Error('WebSocket 未连接');
+      // Text模式直接发送文本字符串，否则发送字节数据
+      ws.send(text !== undefined ? text : data);
+    },
+
+    onData: events.onData,
+    onClose: events.onClose
+  };
+};
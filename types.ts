@@ -11,6 +11,8 @@ export enum StopBits {
 }
 
 export enum DataBits {
+  Five = 5,
+  Six = 6,
   Seven = 7,
   Eight = 8
 }
@@ -20,24 +22,252 @@ export interface SerialConfig {
   dataBits: DataBits;
   stopBits: StopBits;
   parity: Parity;
-  bufferSize: number;
+  bufferSize: number; // 读取缓冲区大小（字节）
   flowControl: 'none' | 'hardware';
 }
 
+// 选择新串口时的 USB 设备过滤条件（十六进制字符串，留空表示不限）
+export interface SerialPortFilterConfig {
+  usbVendorId: string;
+  usbProductId: string;
+}
+
 export enum DisplayMode {
   Text = 'text',
   Hex = 'hex'
 }
 
+// 行结束符：发送时附加在文本后，接收时用于分行显示（None 表示按数据包分行）
+export enum LineEnding {
+  None = 'none',
+  CR = 'cr',
+  LF = 'lf',
+  CRLF = 'crlf'
+}
+
+// 字符编码：用于接收数据解码和发送文本编码
+export enum TextEncoding {
+  UTF8 = 'utf-8',
+  GB18030 = 'gb18030',   // 兼容 GBK/GB2312
+  Big5 = 'big5',
+  ShiftJIS = 'shift_jis',
+  Latin1 = 'iso-8859-1',
+  ASCII = 'ascii'        // 控制字符显示为可见符号
+}
+
+// 文本模式发送选项，发送区与快捷发送共用
+export interface TextSendOptions {
+  lineEnding: LineEnding;
+  parseEscapes: boolean; // 解析 \r \n \t \0 \xHH 转义
+}
+
+// 交互模式：终端获得键盘焦点，每次按键立即发送
+export interface InteractiveOptions {
+  enabled: boolean;
+  enter: LineEnding;          // 回车键发送的行结束符
+  backspace: 'bs' | 'del';    // 退格键发送 0x08 或 0x7F
+  localEcho: boolean;         // 在终端中显示输入内容（设备不回显时使用）
+  pasteChunkSize: number;     // 粘贴时每次发送的字节数，避免设备 FIFO 溢出
+  pasteDelayMs: number;       // 粘贴分块间隔
+}
+
+// 接收分帧：把连续的接收数据切分为完整的帧，每帧一条记录
+export enum FramingMode {
+  None = 'none',           // 每次读取的数据块一条记录
+  Idle = 'idle',           // 字节间隔超过空闲时间即分帧
+  Delimiter = 'delimiter', // 遇到分隔符字节结束一帧
+  Fixed = 'fixed',         // 固定帧长
+  LengthPrefix = 'length'  // 帧头中的长度字段决定帧长
+}
+
+export interface FramingOptions {
+  mode: FramingMode;
+  idleMs: number;
+  delimiter: string;         // 分隔符，十六进制（如 "0D 0A"），包含在帧内
+  frameLength: number;
+  lengthOffset: number;      // 长度字段在帧中的偏移
+  lengthWidth: 1 | 2 | 4;    // 长度字段字节数
+  lengthBigEndian: boolean;
+  lengthAdjust: number;      // 长度字段之后的字节数 = 长度值 + 调整量（如校验和长度）
+}
+
+// 终端搜索：纯文本、正则表达式或十六进制字节序列
+export enum SearchMode {
+  Text = 'text',
+  Regex = 'regex',
+  Hex = 'hex'
+}
+
+export interface SearchQuery {
+  mode: SearchMode;
+  pattern: string;
+  caseSensitive: boolean;
+}
+
+// 接收数据高亮规则：匹配条件与搜索相同，命中部分（或整行）按规则设置的样式显示
+export interface HighlightRule extends SearchQuery {
+  id: string;
+  enabled: boolean;
+  fg?: string;
+  bg?: string;
+  bold: boolean;
+  dim: boolean;
+  wholeLine: boolean; // 样式应用到命中的整行
+}
+
+// 终端按记录类型过滤，sys 包括系统信息和错误
+export interface LogTypeFilter {
+  rx: boolean;
+  tx: boolean;
+  sys: boolean;
+}
+
 export enum FileSendMode {
   Raw = 'raw',
-  YModem = 'ymodem'
+  YModem = 'ymodem',
+  XModem = 'xmodem',       // 128 字节块 + 累加和
+  XModemCRC = 'xmodem-crc', // 128 字节块 + CRC16
+  XModem1K = 'xmodem-1k'    // 1024 字节块 + CRC16
+}
+
+export interface FileSendOptions {
+  mode: FileSendMode;
+  throttleBytes: number;
+  throttleMs: number;
+  onProgress: (p: number) => void;
+  signal?: AbortSignal; // 用于取消发送
+  maxRetries?: number;  // 协议模式：每块最大重试次数
+  timeoutMs?: number;   // 协议模式：应答超时（毫秒）
+}
+
+export interface FileReceiveOptions {
+  mode: FileSendMode; // 接收只支持 XModem/YModem 系列
+  onProgress: (received: number, total: number | null) => void;
+  signal?: AbortSignal;
+  maxRetries?: number;
+  timeoutMs?: number;
 }
 
 export enum CommMode {
   Serial = 'serial',
   WebSocket = 'websocket',
-  Bluetooth = 'bluetooth'
+  Bluetooth = 'bluetooth',
+  Virtual = 'virtual', // 虚拟设备，无需硬件
+  Bridge = 'bridge'    // 串口 ⇄ WebSocket 桥接
+}
+
+// 桥接模式选项
+export interface BridgeOptions {
+  logTraffic: boolean; // 在终端记录转发的数据
+  hexLog: boolean;     // 以十六进制文本记录
+}
+
+// 组合链路（如桥接）中数据的来源
+export interface DataSource {
+  label: string;            // 显示标签，如 "串口→WS"
+  direction: 'rx' | 'tx';   // 相对串口设备：rx 来自设备，tx 发往设备
+}
+
+// 虚拟设备应答规则：接收内容匹配 pattern（正则）时回复 reply，reply 可用 $1 引用捕获组
+export interface VirtualReplyRule {
+  id: string;
+  pattern: string;
+  reply: string;
+  mode: DisplayMode;
+}
+
+// 虚拟设备周期上报，content 支持 {counter}、{time}、{rand:最小-最大} 占位符
+export interface VirtualTelemetry {
+  id: string;
+  content: string;
+  mode: DisplayMode;
+  intervalMs: number;
+  enabled: boolean;
+}
+
+export interface VirtualDeviceConfig {
+  echo: boolean;      // 原样回显收到的数据
+  latencyMs: number;  // 应答延迟
+  chunkSize: number;  // 应答拆分为多少字节一包，0 表示不拆分
+  rules: VirtualReplyRule[];
+  telemetry: VirtualTelemetry[];
+}
+
+// 自动应答触发器：接收数据匹配条件时自动发送应答
+export interface TriggerRule {
+  id: string;
+  enabled: boolean;
+  matchMode: SearchMode;  // 文本/正则匹配解码后的文本，HEX 匹配原始字节
+  pattern: string;
+  reply: string;          // 正则匹配时可用 $1 等引用捕获组
+  replyMode: DisplayMode; // 文本应答使用发送区的结尾与转义设置
+  delayMs: number;
+  maxCount: number;       // 最多触发次数，0 表示不限
+}
+
+// 自动重连策略：指数退避 + 随机抖动
+export interface ReconnectPolicy {
+  initialDelayMs: number; // 第一次重连前的等待时间
+  maxDelayMs: number;     // 等待时间上限
+  multiplier: number;     // 每次失败后等待时间的倍数
+  jitter: number;         // 随机抖动比例 0~1，避免多个客户端同时重连
+  maxAttempts: number;    // 最大重连次数，0 表示不限
+}
+
+// 应用层心跳：定时发送内容，超时未收到任何数据则判定对端失联
+export interface HeartbeatConfig {
+  enabled: boolean;
+  intervalMs: number;
+  timeoutMs: number;
+  payload: string;
+}
+
+export interface WebSocketOptions {
+  protocols: string; // 子协议列表，逗号分隔
+  reconnect: ReconnectPolicy;
+  heartbeat: HeartbeatConfig;
+}
+
+export interface TransportCapabilities {
+  textFrames: boolean;    // 文本模式可按文本帧发送（WebSocket）
+  autoReconnect: boolean; // 意外断开后自动重连
+  modemSignals: boolean;  // 支持 DTR/RTS/BREAK 输出和 CTS/DSR/DCD/RI 读取
+}
+
+// 串口输出控制信号
+export interface SerialOutputSignals {
+  dataTerminalReady?: boolean;
+  requestToSend?: boolean;
+  break?: boolean;
+}
+
+// 串口输入状态信号
+export interface SerialInputSignals {
+  clearToSend: boolean;
+  dataSetReady: boolean;
+  dataCarrierDetect: boolean;
+  ringIndicator: boolean;
+}
+
+// 通讯链路的统一接口，串口/WebSocket/蓝牙均实现该接口
+export interface Transport {
+  readonly mode: CommMode;
+  readonly name: string; // 用于日志显示，如 "串口"
+  readonly capabilities: TransportCapabilities;
+  // 自动重连策略，未提供时使用默认策略
+  readonly reconnectPolicy?: ReconnectPolicy;
+  open(): Promise<void>;
+  // 主动关闭，不会触发 onClose
+  close(): Promise<void>;
+  // text 为文本模式下的原始内容，仅在支持文本帧的链路上使用
+  write(data: Uint8Array, text?: string): Promise<void>;
+  // 返回取消订阅函数；source 仅由桥接等组合链路提供
+  onData(listener: (data: Uint8Array, source?: DataSource) => void): () => void;
+  // 链路意外断开（设备拔出、服务器关闭等）
+  onClose(listener: (error?: Error) => void): () => void;
+  // 控制信号，仅 capabilities.modemSignals 为 true 的链路实现
+  setSignals?(signals: SerialOutputSignals): Promise<void>;
+  getSignals?(): Promise<SerialInputSignals>;
 }
 
 export interface BluetoothConfig {
@@ -46,6 +276,31 @@ export interface BluetoothConfig {
   rxCharacteristicUUID: string;  // 接收特征 UUID
 }
 
+// 蓝牙写入参数：浏览器不公开协商后的 MTU，单包大小需手动设置（一般为 MTU - 3）
+export interface BluetoothWriteOptions {
+  chunkSize: number;
+  withoutResponse: boolean; // 使用 Write Without Response，吞吐量更高
+  maxInFlight: number;      // 排队等待写入的最大分包数
+}
+
+// 常见透传模块的 UUID 预设
+export interface BluetoothPreset extends BluetoothConfig {
+  name: string;
+}
+
+export type GattCharacteristicProperty = 'read' | 'write' | 'writeWithoutResponse' | 'notify' | 'indicate';
+
+// GATT 服务发现结果
+export interface GattCharacteristicInfo {
+  uuid: string;
+  properties: GattCharacteristicProperty[];
+}
+
+export interface GattServiceInfo {
+  uuid: string;
+  characteristics: GattCharacteristicInfo[];
+}
+
 export interface LogEntry {
   id: string;
   timestamp: Date;
@@ -53,6 +308,15 @@ export interface LogEntry {
   data: Uint8Array;
   text: string;
   byteCount: number; // 记录实际接收/发送的字节数
+  source?: string;   // 数据来源标签（桥接模式）
+  summary?: boolean; // text 是摘要或十六进制（文件传输、本地回显、桥接十六进制记录），不是 data 的解码结果，切换编码时不重新解码
+}
+
+// 多会话：每个会话对应一个标签页
+export interface SessionInfo {
+  id: string;
+  name: string;
+  color: string; // 合并时间线中区分会话的颜色
 }
 
 export interface QuickSendItem {
@@ -61,3 +325,47 @@ export interface QuickSendItem {
   content: string;
   mode: DisplayMode;
 }
+
+// 自动化脚本，在 Worker 中运行
+export interface UserScript {
+  id: string;
+  name: string;
+  code: string;
+}
+
+// 测试序列步骤
+export enum TestStepType {
+  Send = 'send',     // 发送文本（解析转义）或 HEX
+  Expect = 'expect', // 在超时时间内等待接收数据匹配正则，捕获组可供断言引用
+  Assert = 'assert', // 检查捕获值
+  Delay = 'delay'
+}
+
+export enum AssertOperator {
+  Equal = '==',
+  NotEqual = '!=',
+  Match = '~',       // 匹配正则
+  Greater = '>',
+  GreaterOrEqual = '>=',
+  Less = '<',
+  LessOrEqual = '<='
+}
+
+export interface TestStep {
+  id: string;
+  type: TestStepType;
+  content: string;          // 发送内容
+  mode: DisplayMode;
+  pattern: string;          // 等待的正则
+  timeoutMs: number;        // 等待超时，延时步骤的时长
+  variable: string;         // 断言引用的捕获组，序号（1）或命名组名称
+  operator: AssertOperator;
+  expected: string;
+}
+
+export interface TestCase {
+  id: string;
+  name: string;
+  enabled: boolean;
+  steps: TestStep[];
+}
@@ -0,0 +1,267 @@
+// ANSI/VT100 转义序列解析：维护一个简化的终端屏幕模型，
+// 支持 SGR 颜色/粗体、擦除行/屏幕、回车覆盖和光标定位
+
+export interface AnsiStyle {
+  fg?: string;
+  bg?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+}
+
+// 同一行中样式和来源相同的连续字符
+export interface AnsiSegment<K> {
+  text: string;
+  style: AnsiStyle;
+  kind: K;
+}
+
+export interface AnsiLine<K> {
+  segments: AnsiSegment<K>[];
+  info?: string; // 非终端数据（如系统日志）独占一行
+}
+
+interface Cell<K> {
+  ch: string;
+  style: AnsiStyle;
+  kind: K;
+}
+
+interface ScreenLine<K> {
+  cells: Cell<K>[];
+  info?: string;
+  cache?: AnsiLine<K>; // 渲染结果缓存，修改该行时清除
+}
+
+// 光标定位以最后 24 行作为屏幕区域，之前的内容视为滚动历史
+const SCREEN_ROWS = 24;
+const TAB_WIDTH = 8;
+
+// 适合浅色背景的 16 色调色板
+const PALETTE = [
+  '#000000', '#cd3131', '#00a000', '#949800', '#0451a5', '#bc05bc', '#0598bc', '#555555',
+  '#666666', '#cd3131', '#14ce14', '#b5ba00', '#0451a5', '#bc05bc', '#0598bc', '#a5a5a5'
+];
+
+const color256 = (n: number): string | undefined => {
+  if (n < 16) return PALETTE[n];
+  if (n < 232) {
+    const i = n - 16;
+    const level = (v: number) => v === 0 ? 0 : 55 + v * 40;
+    return `rgb(${level(Math.floor(i / 36))}, ${level(Math.floor(i / 6) % 6)}, ${level(i % 6)})`;
+  }
+  if (n < 256) {
+    const gray = 8 + (n - 232) * 10;
+    return `rgb(${gray}, ${gray}, ${gray})`;
+  }
+  return undefined;
+};
+
+// 解析 38/48 扩展颜色参数，返回颜色和消耗的参数个数
+const extendedColor = (params: number[], index: number): [string | undefined, number] => {
+  if (params[index + 1] === 5) return [color256(params[index + 2]), 2];
+  if (params[index + 1] === 2) return [`rgb(${params[index + 2] || 0}, ${params[index + 3] || 0}, ${params[index + 4] || 0})`, 4];
+  return [undefined, 0];
+};
+
+// 空白样式，光标跳过或被擦除的位置使用
+const BLANK_STYLE: AnsiStyle = {};
+
+const applySgr = (style: AnsiStyle, params: number[]): AnsiStyle => {
+  let next = { ...style };
+  for (let i = 0; i < params.length; i++) {
+    const p = params[i];
+    if (p === 0) next = {};
+    else if (p === 1) next.bold = true;
+    else if (p === 2) next.dim = true;
+    else if (p === 3) next.italic = true;
+    else if (p === 4) next.underline = true;
+    else if (p === 7) next.inverse = true;
+    else if (p === 22) { next.bold = false; next.dim = false; }
+    else if (p === 23) next.italic = false;
+    else if (p === 24) next.underline = false;
+    else if (p === 27) next.inverse = false;
+    else if (p >= 30 && p <= 37) next.fg = PALETTE[p - 30];
+    else if (p >= 90 && p <= 97) next.fg = PALETTE[p - 90 + 8];
+    else if (p >= 40 && p <= 47) next.bg = PALETTE[p - 40];
+    else if (p >= 100 && p <= 107) next.bg = PALETTE[p - 100 + 8];
+    else if (p === 39) delete next.fg;
+    else if (p === 49) delete next.bg;
+    else if (p === 38 || p === 48) {
+      const [color, used] = extendedColor(params, i);
+      if (color) next[p === 38 ? 'fg' : 'bg'] = color;
+      i += used;
+    }
+  }
+  return next;
+};
+
+type ParserState = 'text' | 'esc' | 'charset' | 'csi' | 'osc' | 'oscEsc';
+
+const EMPTY_LINE: AnsiLine<never> = { segments: [] };
+
+// kind 标记字符来源（如 rx/tx），渲染时用于区分默认颜色。
+// raw 为 true 时不解析转义序列，只按换行符分行
+export const createAnsiScreen = <K>(raw = false) => {
+  const lines: ScreenLine<K>[] = [];
+  let row = 0;
+  let col = 0;
+  let top = 0; // 屏幕区域第一行
+  let saved = { row: 0, col: 0 };
+  let style: AnsiStyle = {};
+  let state: ParserState = 'text';
+  let params = '';
+
+  const lineAt = (r: number) => {
+    while (lines.length <= r) lines.push({ cells: [] });
+    lines[r].cache = undefined;
+    return lines[r];
+  };
+
+  const moveTo = (r: number, c: number) => {
+    row = Math.max(top, r);
+    col = Math.max(0, c);
+    if (row - top >= SCREEN_ROWS) top = row - SCREEN_ROWS + 1;
+  };
+
+  const put = (ch: string, kind: K) => {
+    const cells = lineAt(row).cells;
+    while (cells.length < col) cells.push({ ch: ' ', style: BLANK_STYLE, kind });
+    cells[col] = { ch, style, kind };
+    col++;
+  };
+
+  const eraseLine = (mode: number) => {
+    const line = lineAt(row);
+    if (mode === 0) line.cells.length = Math.min(line.cells.length, col);
+    else if (mode === 1) line.cells = line.cells.map((cell, c) => c <= col ? { ch: ' ', style: BLANK_STYLE, kind: cell.kind } : cell);
+    else line.cells = [];
+  };
+
+  const eraseScreen = (mode: number) => {
+    if (mode === 0) {
+      eraseLine(0);
+      lines.length = Math.min(lines.length, row + 1);
+    } else if (mode === 1) {
+      for (let r = top; r < row; r++) lineAt(r).cells = [];
+      eraseLine(1);
+    } else {
+      // 清屏时把当前屏幕内容留作滚动历史。清除滚动历史（模式 3，如 clear 命令发送的
+      // \e[3J）也同样处理：行号已被缓存用于增量渲染，不能重新编号
+      top = lines.length;
+      moveTo(top, mode === 2 ? col : 0);
+    }
+  };
+
+  const runCsi = (final: string) => {
+    // 私有序列（如 ?25l 隐藏光标）不影响显示
+    if (/^[?>=]/.test(params)) return;
+    const args = params.split(';').map(p => p === '' ? NaN : parseInt(p, 10));
+    const arg = (i: number, fallback: number) => isNaN(args[i]) ? fallback : args[i];
+    const n = Math.max(1, arg(0, 1));
+    switch (final) {
+      case 'm': style = applySgr(style, args.map(a => isNaN(a) ? 0 : a)); break;
+      case 'A': moveTo(row - n, col); break;
+      case 'B': moveTo(row + n, col); break;
+      case 'C': moveTo(row, col + n); break;
+      case 'D': moveTo(row, col - n); break;
+      case 'E': moveTo(row + n, 0); break;
+      case 'F': moveTo(row - n, 0); break;
+      case 'G': moveTo(row, n - 1); break;
+      case 'd': moveTo(top + n - 1, col); break;
+      case 'H':
+      case 'f': moveTo(top + Math.max(1, arg(0, 1)) - 1, Math.max(1, arg(1, 1)) - 1); break;
+      case 'K': eraseLine(arg(0, 0)); break;
+      case 'J': eraseScreen(arg(0, 0)); break;
+      case 's': saved = { row, col }; break;
+      case 'u': moveTo(saved.row, saved.col); break;
+    }
+  };
+
+  const write = (text: string, kind: K) => {
+    if (raw) {
+      for (const ch of text) {
+        if (ch === '\n') moveTo(row + 1, 0);
+        else if (ch.charCodeAt(0) >= 0x20) put(ch, kind);
+      }
+      return;
+    }
+    for (const ch of text) {
+      if (state === 'esc') {
+        if (ch === '[') { state = 'csi'; params = ''; }
+        else if (ch === ']') state = 'osc';
+        else if (ch === '(' || ch === ')') state = 'charset';
+        else {
+          if (ch === '7') saved = { row, col };
+          else if (ch === '8') moveTo(saved.row, saved.col);
+          else if (ch === 'c') { eraseScreen(3); style = {}; }
+          state = 'text';
+        }
+        continue;
+      }
+      if (state === 'charset') { state = 'text'; continue; }
+      if (state === 'csi') {
+        const code = ch.charCodeAt(0);
+        if (code >= 0x40 && code <= 0x7e) {
+          runCsi(ch);
+          state = 'text';
+        } else {
+          params += ch;
+        }
+        continue;
+      }
+      if (state === 'osc' || state === 'oscEsc') {
+        // 窗口标题等 OSC 序列以 BEL 或 ESC \ 结束，直接丢弃
+        if (ch === '\x07' || (state === 'oscEsc' && ch === '\\')) state = 'text';
+        else state = ch === '\x1b' ? 'oscEsc' : 'osc';
+        continue;
+      }
+
+      if (ch === '\x1b') state = 'esc';
+      else if (ch === '\r') col = 0;
+      else if (ch === '\n') moveTo(row + 1, 0); // 串口设备常只发 LF，按换行并回到行首处理
+      else if (ch === '\b') col = Math.max(0, col - 1);
+      else if (ch === '\t') col = (Math.floor(col / TAB_WIDTH) + 1) * TAB_WIDTH;
+      else if (ch.charCodeAt(0) >= 0x20) put(ch, kind);
+    }
+  };
+
+  // 插入独占一行的信息，光标移到其下一行
+  const writeInfo = (info: string) => {
+    if (col > 0 || lineAt(row).cells.length > 0) moveTo(row + 1, 0);
+    lineAt(row).info = info;
+    moveTo(row + 1, 0);
+  };
+
+  const getRow = (index: number): AnsiLine<K> => {
+    const line = lines[index];
+    if (!line) return EMPTY_LINE;
+    if (line.cache) return line.cache;
+    const segments: AnsiSegment<K>[] = [];
+    line.cells.forEach(cell => {
+      const last = segments[segments.length - 1];
+      if (last && last.style === cell.style && last.kind === cell.kind) last.text += cell.ch;
+      else segments.push({ text: cell.ch, style: cell.style, kind: cell.kind });
+    });
+    return line.cache = { segments, info: line.info };
+  };
+
+  const rowCount = () => lines.length;
+
+  const getLines = (): AnsiLine<K>[] => lines.map((_, index) => getRow(index));
+
+  // 光标所在行和列（列按字符计）
+  const getCursor = () => ({ row, col });
+
+  return { write, writeInfo, getRow, rowCount, getLines, getCursor };
+};
+
+const ANSI_PATTERN = /\x1b(?:\[[0-?]*[ -/]*[@-~]|\][^\x07\x1b]*(?:\x07|\x1b\\)|[()][0-9A-Za-z]|[@-Z\\-_])/g;
+
+// 去除转义序列，用于分行显示
+export const stripAnsi = (text: string): string => text.replace(ANSI_PATTERN, '');
+
+// 关闭 ANSI 解析时将 ESC 显示为可见符号
+export const showEscapes = (text: string): string => text.replace(/\x1b/g, '␛');
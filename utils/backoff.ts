@@ -0,0 +1,17 @@
+import { ReconnectPolicy } from '../types';
+
+// 默认策略：每秒重试一次，不限次数
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  initialDelayMs: 1000,
+  maxDelayMs: 1000,
+  multiplier: 1,
+  jitter: 0,
+  maxAttempts: 0
+};
+
+// 计算第 attempt 次（从 1 开始）重连前的等待时间
+export const getReconnectDelay = (policy: ReconnectPolicy, attempt: number): number => {
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(Math.max(1, policy.multiplier), attempt - 1));
+  const spread = base * Math.min(1, Math.max(0, policy.jitter));
+  return Math.max(0, Math.round(base - spread + Math.random() * spread * 2));
+};
@@ -0,0 +1,59 @@
+// 接收字节队列：协议状态机（YModem 等）按字节读取设备返回的数据
+
+export interface ByteQueue {
+  push(data: Uint8Array): void;
+  // 读取一个字节，超时返回 null
+  read(timeoutMs: number): Promise<number | null>;
+  clear(): void;
+}
+
+export const createByteQueue = (): ByteQueue => {
+  const chunks: Uint8Array[] = [];
+  let offset = 0; // 当前首块中已读取的位置
+  let waiter: ((byte: number | null) => void) | null = null;
+  let waiterTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const takeByte = (): number | null => {
+    while (chunks.length > 0) {
+      const head = chunks[0];
+      if (offset < head.length) {
+        return head[offset++];
+      }
+      chunks.shift();
+      offset = 0;
+    }
+    return null;
+  };
+
+  const settle = (byte: number | null) => {
+    if (waiterTimer) {
+      clearTimeout(waiterTimer);
+      waiterTimer = null;
+    }
+    const resolve = waiter;
+    waiter = null;
+    resolve?.(byte);
+  };
+
+  return {
+    push(data) {
+      if (data.length === 0) return;
+      chunks.push(data);
+      if (waiter) settle(takeByte());
+    },
+    read(timeoutMs) {
+      const byte = takeByte();
+      if (byte !== null) return Promise.resolve(byte);
+      // 同一时间只允许一个读取者，旧的读取视为超时
+      if (waiter) settle(null);
+      return new Promise(resolve => {
+        waiter = resolve;
+        waiterTimer = setTimeout(() => settle(null), timeoutMs);
+      });
+    },
+    clear() {
+      chunks.length = 0;
+      offset = 0;
+    }
+  };
+};
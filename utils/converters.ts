@@ -1,3 +1,5 @@
+import { LineEnding, TextEncoding } from '../types';
+import { decodeText, encodeText } from './encoding';
 
 export const uint8ArrayToHex = (arr: Uint8Array): string => {
   return Array.from(arr)
@@ -17,10 +19,57 @@ export const hexToUint8Array = (hex: string): Uint8Array => {
   return result;
 };
 
-export const stringToUint8Array = (str: string): Uint8Array => {
-  return new TextEncoder().encode(str);
+// 在字节数组中查找字节序列，未找到返回 -1
+export const indexOfBytes = (data: Uint8Array, pattern: Uint8Array, from = 0): number => {
+  for (let i = from; i <= data.length - pattern.length; i++) {
+    let j = 0;
+    while (j < pattern.length && data[i + j] === pattern[j]) j++;
+    if (j === pattern.length) return i;
+  }
+  return -1;
+};
+
+export const stringToUint8Array = (str: string, encoding: TextEncoding = TextEncoding.UTF8): Uint8Array => {
+  return encodeText(str, encoding);
+};
+
+export const uint8ArrayToString = (arr: Uint8Array, encoding: TextEncoding = TextEncoding.UTF8): string => {
+  return decodeText(arr, encoding);
 };
 
-export const uint8ArrayToString = (arr: Uint8Array): string => {
-  return new TextDecoder().decode(arr);
+export const lineEndingText: Record<LineEnding, string> = {
+  [LineEnding.None]: '',
+  [LineEnding.CR]: '\r',
+  [LineEnding.LF]: '\n',
+  [LineEnding.CRLF]: '\r\n'
+};
+
+const simpleEscapes: Record<string, number> = { r: 0x0d, n: 0x0a, t: 0x09, '0': 0x00, '\\': 0x5c };
+
+// 解析文本中的转义序列：\r \n \t \0 \\ 及 \xHH，无法识别的转义原样保留
+export const parseEscapes = (str: string, encoding: TextEncoding = TextEncoding.UTF8): Uint8Array => {
+  const bytes: number[] = [];
+  let literal = '';
+  const flush = () => {
+    if (!literal) return;
+    encodeText(literal, encoding).forEach(b => bytes.push(b));
+    literal = '';
+  };
+  for (let i = 0; i < str.length; i++) {
+    const ch = str[i];
+    const next = str[i + 1];
+    if (ch === '\\' && next !== undefined && simpleEscapes[next] !== undefined) {
+      flush();
+      bytes.push(simpleEscapes[next]);
+      i++;
+    } else if (ch === '\\' && next === 'x' && /^[0-9a-fA-F]{2}$/.test(str.substr(i + 2, 2))) {
+      flush();
+      bytes.push(parseInt(str.substr(i + 2, 2), 16));
+      i += 3;
+    } else {
+      literal += ch;
+    }
+  }
+  flush();
+  return new Uint8Array(bytes);
 };
@@ -0,0 +1,142 @@
+import { TextEncoding } from '../types';
+
+// 与 TextDecoder 相同的解码接口，stream 为 true 时保留不完整的多字节字符
+export interface TextDecoderLike {
+  decode(data: Uint8Array, options?: { stream?: boolean }): string;
+}
+
+const REPLACEMENT = 0xfffd;
+const UNENCODABLE = 0x3f; // 无法编码的字符发送 '?'
+
+// ASCII 模式下控制字符显示为 Unicode 控制图形符号（␀ ␍ ␊ ␡ 等），换行符后保留真实换行
+const CONTROL_PICTURES = 0x2400;
+const DEL_PICTURE = 0x2421;
+
+const decodeLatin1 = (data: Uint8Array): string => {
+  let text = '';
+  for (let i = 0; i < data.length; i++) text += String.fromCharCode(data[i]);
+  return text;
+};
+
+const decodeVisibleAscii = (data: Uint8Array): string => {
+  let text = '';
+  for (let i = 0; i < data.length; i++) {
+    const b = data[i];
+    if (b === 0x0a) text += String.fromCharCode(CONTROL_PICTURES + b) + '\n';
+    else if (b < 0x20) text += String.fromCharCode(CONTROL_PICTURES + b);
+    else if (b === 0x7f) text += String.fromCharCode(DEL_PICTURE);
+    else if (b < 0x80) text += String.fromCharCode(b);
+    else text += String.fromCharCode(REPLACEMENT);
+  }
+  return text;
+};
+
+export const createTextDecoder = (encoding: TextEncoding): TextDecoderLike => {
+  // 浏览器把 iso-8859-1 当作 windows-1252 处理，这里按字节直接映射
+  if (encoding === TextEncoding.Latin1) return { decode: decodeLatin1 };
+  if (encoding === TextEncoding.ASCII) return { decode: decodeVisibleAscii };
+  return new TextDecoder(encoding, { fatal: false });
+};
+
+export const decodeText = (data: Uint8Array, encoding: TextEncoding): string => {
+  return createTextDecoder(encoding).decode(data);
+};
+
+type ByteRange = [number, number];
+
+// 多字节编码的首字节和尾字节范围
+const doubleByteRanges: Partial<Record<TextEncoding, { lead: ByteRange[], trail: ByteRange[] }>> = {
+  [TextEncoding.GB18030]: { lead: [[0x81, 0xfe]], trail: [[0x40, 0x7e], [0x80, 0xfe]] },
+  [TextEncoding.Big5]: { lead: [[0x81, 0xfe]], trail: [[0x40, 0x7e], [0xa1, 0xfe]] },
+  [TextEncoding.ShiftJIS]: { lead: [[0x81, 0x9f], [0xe0, 0xfc]], trail: [[0x40, 0x7e], [0x80, 0xfc]] }
+};
+
+const eachByte = (ranges: ByteRange[], callback: (b: number) => void) => {
+  ranges.forEach(([from, to]) => {
+    for (let b = from; b <= to; b++) callback(b);
+  });
+};
+
+// GB18030 四字节序列的 BMP 部分共 39420 个码位，其余为补充平面
+const GB18030_BMP_POINTERS = 39420;
+const GB18030_SUPPLEMENTARY_OFFSET = 189000;
+
+const gb18030FourBytes = (pointer: number): number[] => [
+  0x81 + Math.floor(pointer / 12600),
+  0x30 + Math.floor(pointer / 1260) % 10,
+  0x81 + Math.floor(pointer / 10) % 126,
+  0x30 + pointer % 10
+];
+
+// TextEncoder 只支持 UTF-8，编码表通过逐个解码所有字节序列反推得到
+const encodeTables: Partial<Record<TextEncoding, Map<number, number[]>>> = {};
+
+const buildEncodeTable = (encoding: TextEncoding): Map<number, number[]> => {
+  const decoder = new TextDecoder(encoding);
+  const table = new Map<number, number[]>();
+  const add = (bytes: number[]) => {
+    const text = decoder.decode(new Uint8Array(bytes));
+    const codePoint = text.codePointAt(0);
+    // 跳过无效序列、解码为多个字符的序列，以及已有编码的重复字符
+    if (codePoint === undefined || codePoint === REPLACEMENT || String.fromCodePoint(codePoint) !== text || table.has(codePoint)) return;
+    table.set(codePoint, bytes);
+  };
+
+  for (let b = 0; b < 0x80; b++) add([b]);
+  if (encoding === TextEncoding.ShiftJIS) {
+    for (let b = 0xa1; b <= 0xdf; b++) add([b]); // 半角片假名
+  }
+  const ranges = doubleByteRanges[encoding];
+  if (ranges) eachByte(ranges.lead, lead => eachByte(ranges.trail, trail => add([lead, trail])));
+
+  if (encoding === TextEncoding.GB18030) {
+    // 四字节序列一次性解码，每个指针正好对应一个 BMP 字符
+    const bytes = new Uint8Array(GB18030_BMP_POINTERS * 4);
+    for (let pointer = 0; pointer < GB18030_BMP_POINTERS; pointer++) bytes.set(gb18030FourBytes(pointer), pointer * 4);
+    const text = decoder.decode(bytes);
+    if (text.length === GB18030_BMP_POINTERS) {
+      for (let pointer = 0; pointer < GB18030_BMP_POINTERS; pointer++) {
+        const codePoint = text.charCodeAt(pointer);
+        if (!table.has(codePoint)) table.set(codePoint, gb18030FourBytes(pointer));
+      }
+    }
+  }
+  return table;
+};
+
+const encodeCodePoint = (codePoint: number, encoding: TextEncoding, bytes: number[]) => {
+  if (encoding === TextEncoding.Latin1) {
+    bytes.push(codePoint <= 0xff ? codePoint : UNENCODABLE);
+    return;
+  }
+  if (encoding === TextEncoding.ASCII) {
+    if (codePoint < 0x80) bytes.push(codePoint);
+    else if (codePoint >= CONTROL_PICTURES && codePoint < CONTROL_PICTURES + 0x20) bytes.push(codePoint - CONTROL_PICTURES);
+    else if (codePoint === DEL_PICTURE) bytes.push(0x7f);
+    else bytes.push(UNENCODABLE);
+    return;
+  }
+  if (encoding === TextEncoding.GB18030 && codePoint >= 0x10000) {
+    bytes.push(...gb18030FourBytes(codePoint - 0x10000 + GB18030_SUPPLEMENTARY_OFFSET));
+    return;
+  }
+  const table = encodeTables[encoding] || (encodeTables[encoding] = buildEncodeTable(encoding));
+  const encoded = table.get(codePoint);
+  if (encoded) bytes.push(...encoded);
+  else bytes.push(UNENCODABLE);
+};
+
+export const encodeText = (text: string, encoding: TextEncoding): Uint8Array => {
+  if (encoding === TextEncoding.UTF8) return new TextEncoder().encode(text);
+  const bytes: number[] = [];
+  let previous: number | undefined;
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    // ASCII 模式解码时在 ␊ 后补了换行，编码时还原为单个 LF
+    if (!(encoding === TextEncoding.ASCII && codePoint === 0x0a && previous === CONTROL_PICTURES + 0x0a)) {
+      encodeCodePoint(codePoint, encoding, bytes);
+    }
+    previous = codePoint;
+  }
+  return new Uint8Array(bytes);
+};
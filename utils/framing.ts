@@ -0,0 +1,147 @@
+import { FramingMode, FramingOptions } from '../types';
+import { hexToUint8Array, indexOfBytes } from './converters';
+
+// 接收分帧：按空闲间隔、分隔符、固定长度或长度字段把数据流切分为帧，
+// 每帧的时间戳取其第一个字节到达的时间
+
+export interface Framer {
+  push(data: Uint8Array, time?: Date): void;
+  // 立即输出尚未完成的数据（断开连接、修改分帧设置时）
+  flush(): void;
+  // 丢弃缓存数据并取消空闲定时器
+  reset(): void;
+}
+
+// 一直未凑成完整帧时，缓存超过该大小直接输出，避免无限增长
+const MAX_FRAME_BYTES = 64 * 1024;
+
+// 解析分隔符设置，无效时返回 null
+export const parseDelimiter = (hex: string): Uint8Array | null => {
+  try {
+    const bytes = hexToUint8Array(hex);
+    return bytes.length > 0 ? bytes : null;
+  } catch {
+    return null;
+  }
+};
+
+const readLength = (data: Uint8Array, offset: number, width: number, bigEndian: boolean) => {
+  let value = 0;
+  for (let i = 0; i < width; i++) {
+    const b = data[offset + (bigEndian ? i : width - 1 - i)];
+    value = value * 256 + b;
+  }
+  return value;
+};
+
+export const createFramer = (options: FramingOptions, onFrame: (frame: Uint8Array, timestamp: Date) => void): Framer => {
+  // 未读数据为 buffer[start, end)。输出的帧是 buffer 的子数组，因此已输出的区域不再写入：
+  // 追加只写在 end 之后，空间不足时才换用新数组并搬移未读数据
+  let buffer = new Uint8Array(0);
+  let start = 0;
+  let end = 0;
+  // 各数据块的结束位置和到达时间，用于确定每帧首字节的时间；arrivals[first] 之前的已全部输出
+  let arrivals: { end: number, time: Date }[] = [];
+  let first = 0;
+  let searchFrom = 0; // 分隔符模式下已确认不含分隔符的长度（相对 start）
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+  const delimiter = options.mode === FramingMode.Delimiter ? parseDelimiter(options.delimiter) : null;
+
+  const pending = () => buffer.subarray(start, end);
+
+  const emit = (length: number) => {
+    const frame = buffer.subarray(start, start + length);
+    const time = arrivals[first].time;
+    start += length;
+    while (first < arrivals.length && arrivals[first].end <= start) first++;
+    searchFrom = 0;
+    onFrame(frame, time);
+  };
+
+  // 返回未读数据开头一个完整帧的长度，不足一帧时返回 0
+  const nextFrameLength = (): number => {
+    const data = pending();
+    switch (options.mode) {
+      case FramingMode.Fixed:
+        return data.length >= Math.max(1, options.frameLength) ? Math.max(1, options.frameLength) : 0;
+      case FramingMode.Delimiter: {
+        if (!delimiter) return data.length;
+        const index = indexOfBytes(data, delimiter, searchFrom);
+        if (index === -1) {
+          searchFrom = Math.max(0, data.length - delimiter.length + 1);
+          return 0;
+        }
+        return index + delimiter.length;
+      }
+      case FramingMode.LengthPrefix: {
+        const header = options.lengthOffset + options.lengthWidth;
+        if (data.length < header) return 0;
+        const total = header + readLength(data, options.lengthOffset, options.lengthWidth, options.lengthBigEndian) + options.lengthAdjust;
+        // 长度字段异常（如调整量为负导致帧长不足帧头）时按帧头长度输出，尽快重新同步
+        const length = Math.max(header, total);
+        return data.length >= length ? length : 0;
+      }
+      default:
+        return 0;
+    }
+  };
+
+  const clearIdleTimer = () => {
+    if (idleTimer) {
+      clearTimeout(idleTimer);
+      idleTimer = null;
+    }
+  };
+
+  const flush = () => {
+    clearIdleTimer();
+    if (end > start) emit(end - start);
+  };
+
+  // 追加数据，每次 push 最多搬移一次未读数据
+  const append = (data: Uint8Array, time: Date) => {
+    if (end + data.length > buffer.length) {
+      const unread = end - start;
+      const next = new Uint8Array(Math.max(1024, (unread + data.length) * 2));
+      next.set(buffer.subarray(start, end));
+      arrivals = arrivals.slice(first).map(a => ({ end: a.end - start, time: a.time }));
+      first = 0;
+      buffer = next;
+      start = 0;
+      end = unread;
+    }
+    buffer.set(data, end);
+    end += data.length;
+    arrivals.push({ end, time });
+  };
+
+  const push = (data: Uint8Array, time = new Date()) => {
+    if (data.length === 0) return;
+    if (options.mode === FramingMode.None) {
+      onFrame(data, time);
+      return;
+    }
+    append(data, time);
+
+    if (options.mode === FramingMode.Idle) {
+      clearIdleTimer();
+      idleTimer = setTimeout(flush, Math.max(1, options.idleMs));
+    } else {
+      let length: number;
+      while (end > start && (length = nextFrameLength()) > 0) emit(length);
+    }
+    if (end - start > MAX_FRAME_BYTES) flush();
+  };
+
+  const reset = () => {
+    clearIdleTimer();
+    buffer = new Uint8Array(0);
+    start = 0;
+    end = 0;
+    arrivals = [];
+    first = 0;
+    searchFrom = 0;
+  };
+
+  return { push, flush, reset };
+};
@@ -0,0 +1,108 @@
+import { HighlightRule, TextEncoding } from '../types';
+import { AnsiSegment, AnsiStyle } from './ansi';
+import { compileSearch } from './search';
+
+// 接收数据高亮规则：逐行匹配显示的文本，靠前的规则优先
+
+export interface CompiledRule {
+  rule: HighlightRule;
+  regex: RegExp;
+}
+
+export interface RuleRange {
+  start: number;
+  end: number;
+  rule: HighlightRule;
+}
+
+// 跳过未启用和条件无效的规则
+export const compileRules = (rules: HighlightRule[], hexView: boolean, encoding: TextEncoding): CompiledRule[] => {
+  const compiled: CompiledRule[] = [];
+  rules.forEach(rule => {
+    if (!rule.enabled) return;
+    try {
+      const regex = compileSearch(rule, hexView, encoding);
+      if (regex) compiled.push({ rule, regex });
+    } catch {
+      // 编辑中的无效条件在规则编辑器中提示
+    }
+  });
+  return compiled;
+};
+
+// 规则条件的错误信息，有效时返回 null
+export const ruleError = (rule: HighlightRule): string | null => {
+  try {
+    compileSearch(rule, false, TextEncoding.UTF8);
+    return null;
+  } catch (err: any) {
+    return err.message;
+  }
+};
+
+// 匹配一行文本：返回各规则命中的不重叠范围，以及第一个命中的整行规则
+export const matchRules = (rules: CompiledRule[], text: string): { ranges: RuleRange[], line?: HighlightRule } => {
+  let line: HighlightRule | undefined;
+  const owners: (HighlightRule | undefined)[] = new Array(text.length);
+  rules.forEach(({ rule, regex }) => {
+    regex.lastIndex = 0;
+    let found: RegExpExecArray | null;
+    while ((found = regex.exec(text))) {
+      if (found[0].length === 0) {
+        regex.lastIndex++;
+        continue;
+      }
+      if (rule.wholeLine) {
+        line = line || rule;
+        break;
+      }
+      for (let i = found.index; i < found.index + found[0].length; i++) owners[i] = owners[i] || rule;
+    }
+  });
+
+  const ranges: RuleRange[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const rule = owners[i];
+    if (!rule) continue;
+    const last = ranges[ranges.length - 1];
+    if (last && last.rule === rule && last.end === i) last.end = i + 1;
+    else ranges.push({ start: i, end: i + 1, rule });
+  }
+  return { ranges, line };
+};
+
+// 规则样式叠加到原有的 ANSI 样式上
+export const applyRuleStyle = (style: AnsiStyle, rule: HighlightRule): AnsiStyle => ({
+  ...style,
+  fg: rule.fg ?? style.fg,
+  bg: rule.bg ?? style.bg,
+  bold: rule.bold || style.bold,
+  dim: rule.dim || style.dim
+});
+
+// 按规则命中范围切分各段，只处理 kind 为 target 的段（如只高亮接收数据）
+export const styleSegments = <K>(segments: AnsiSegment<K>[], ranges: RuleRange[], target: K): AnsiSegment<K>[] => {
+  if (ranges.length === 0) return segments;
+  const result: AnsiSegment<K>[] = [];
+  let offset = 0;
+  segments.forEach(segment => {
+    const end = offset + segment.text.length;
+    if (segment.kind !== target) {
+      result.push(segment);
+      offset = end;
+      return;
+    }
+    let at = offset;
+    ranges.forEach(range => {
+      const from = Math.max(range.start, at);
+      const to = Math.min(range.end, end);
+      if (from >= to) return;
+      if (from > at) result.push({ ...segment, text: segment.text.slice(at - offset, from - offset) });
+      result.push({ ...segment, text: segment.text.slice(from - offset, to - offset), style: applyRuleStyle(segment.style, range.rule) });
+      at = to;
+    });
+    if (at < end) result.push({ ...segment, text: segment.text.slice(at - offset) });
+    offset = end;
+  });
+  return result;
+};
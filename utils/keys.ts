@@ -0,0 +1,65 @@
+import { InteractiveOptions, LineEnding, TextEncoding } from '../types';
+import { lineEndingText } from './converters';
+import { decodeText, encodeText } from './encoding';
+
+const ESC = '\x1b';
+
+// 功能键对应的 VT100 转义序列
+const keySequences: Record<string, string> = {
+  ArrowUp: `${ESC}[A`,
+  ArrowDown: `${ESC}[B`,
+  ArrowRight: `${ESC}[C`,
+  ArrowLeft: `${ESC}[D`,
+  Home: `${ESC}[H`,
+  End: `${ESC}[F`,
+  Insert: `${ESC}[2~`,
+  Delete: `${ESC}[3~`,
+  PageUp: `${ESC}[5~`,
+  PageDown: `${ESC}[6~`,
+  F1: `${ESC}OP`,
+  F2: `${ESC}OQ`,
+  F3: `${ESC}OR`,
+  F4: `${ESC}OS`,
+  Tab: '\t',
+  Escape: ESC
+};
+
+export interface KeyInput {
+  key: string;
+  ctrlKey: boolean;
+  altKey: boolean;
+  metaKey: boolean;
+}
+
+export const enterText = (ending: LineEnding): string => lineEndingText[ending] || '\r';
+
+// 将按键转换为要发送的字节，不需要发送的按键返回 null
+export const keyToBytes = (event: KeyInput, options: InteractiveOptions, encoding: TextEncoding): Uint8Array | null => {
+  const { key } = event;
+  if (event.metaKey) return null;
+  if (key === 'Enter') return encodeText(enterText(options.enter), encoding);
+  if (key === 'Backspace') return new Uint8Array([options.backspace === 'del' ? 0x7f : 0x08]);
+  if (event.ctrlKey && !event.altKey && key.length === 1) {
+    // Ctrl-A ~ Ctrl-Z 及 Ctrl-[ \ ] ^ _ 对应 0x01 ~ 0x1F
+    const code = key.toUpperCase().charCodeAt(0);
+    if (code >= 0x40 && code <= 0x5f) return new Uint8Array([code & 0x1f]);
+    if (key === ' ' || key === '@') return new Uint8Array([0x00]);
+    return null;
+  }
+  const sequence = keySequences[key];
+  if (sequence) return encodeText(sequence, encoding);
+  if (key.length > 0 && [...key].length === 1) {
+    // Alt 组合键按惯例以 ESC 前缀发送
+    return encodeText(event.altKey ? ESC + key : key, encoding);
+  }
+  return null;
+};
+
+// 本地回显的显示文本：回车换行、退格擦除字符，控制字符显示为 ^C 形式，转义序列不回显
+export const localEchoText = (data: Uint8Array, encoding: TextEncoding): string => {
+  if (data[0] === 0x1b && data.length > 1) return '';
+  return decodeText(data, encoding)
+    .replace(/\r\n|\r|\n/g, '\r\n')
+    .replace(/[\b\x7f]/g, '\b \b')
+    .replace(/[\x00-\x07\x0b-\x0c\x0e-\x1f]/g, ch => '^' + String.fromCharCode(ch.charCodeAt(0) + 0x40));
+};
@@ -0,0 +1,128 @@
+import { LineEnding, LogEntry, TextEncoding } from '../types';
+import { createTextDecoder } from './encoding';
+
+// 分行显示的一行，可能由多个数据包拼接而成
+export interface DisplayLine {
+  id: string;
+  timestamp: Date; // 该行第一个字节的接收时间
+  type: LogEntry['type'];
+  data: Uint8Array;
+  text: string;
+  source?: string;
+}
+
+const CR = 0x0d;
+const LF = 0x0a;
+
+const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+  if (chunks.length === 1) return chunks[0];
+  const result = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  chunks.forEach(c => {
+    result.set(c, offset);
+    offset += c.length;
+  });
+  return result;
+};
+
+const toLine = (id: string, log: LogEntry): DisplayLine => ({
+  id,
+  timestamp: log.timestamp,
+  type: log.type,
+  data: log.data,
+  text: log.text,
+  source: log.source
+});
+
+// 按行结束符增量分行：每次追加一条日志，未结束的行作为最后一行显示。
+// LineEnding.None 时每个数据包一行；发送日志和系统日志会截断正在拼接的行。
+export const createLineSplitter = (ending: LineEnding, encoding: TextEncoding = TextEncoding.UTF8) => {
+  const lines: DisplayLine[] = [];
+  const decoder = createTextDecoder(encoding);
+  const terminatorLength = ending === LineEnding.CRLF ? 2 : 1;
+  let pendingLog: LogEntry | null = null;
+  let pendingChunks: Uint8Array[] = [];
+  let pendingLine: DisplayLine | null = null; // 未结束行的显示缓存
+  let lineIndex = 0;
+
+  // 显示文本不含行结束符，data 保留原始字节
+  const makeLine = (log: LogEntry, data: Uint8Array, terminated: boolean): DisplayLine => {
+    const text = decoder.decode(data.subarray(0, terminated ? data.length - terminatorLength : data.length));
+    return { ...toLine(`${log.id}-${lineIndex}`, log), data, text };
+  };
+
+  const flush = () => {
+    if (pendingLog && pendingChunks.length > 0) {
+      lines.push(makeLine(pendingLog, concatBytes(pendingChunks), false));
+      lineIndex++;
+    }
+    pendingLog = null;
+    pendingChunks = [];
+  };
+
+  const lastPendingByte = () => {
+    const last = pendingChunks[pendingChunks.length - 1];
+    return last ? last[last.length - 1] : undefined;
+  };
+
+  // 只在新数据中查找行结束符，CRLF 可能跨数据包
+  const findLineEnd = (data: Uint8Array, from: number): number => {
+    if (ending === LineEnding.CRLF && from === 0 && data[0] === LF && lastPendingByte() === CR) return 1;
+    for (let i = from; i < data.length; i++) {
+      if (ending === LineEnding.LF && data[i] === LF) return i + 1;
+      if (ending === LineEnding.CR && data[i] === CR) return i + 1;
+      if (ending === LineEnding.CRLF && data[i] === CR && data[i + 1] === LF) return i + 2;
+    }
+    return -1;
+  };
+
+  const push = (log: LogEntry) => {
+    pendingLine = null;
+    if (ending === LineEnding.None) {
+      lines.push(toLine(log.id, log));
+      return;
+    }
+    // 桥接模式两个方向的数据都按流处理
+    const isStream = log.type === 'rx' || (log.type === 'tx' && log.source !== undefined);
+    if (!isStream || log.data.length === 0) {
+      flush();
+      lines.push(toLine(log.id, log));
+      return;
+    }
+    if (pendingLog && (pendingLog.type !== log.type || pendingLog.source !== log.source)) flush();
+
+    let start = 0;
+    let end = findLineEnd(log.data, start);
+    while (end !== -1) {
+      const owner = pendingLog || log;
+      lines.push(makeLine(owner, concatBytes([...pendingChunks, log.data.subarray(start, end)]), true));
+      lineIndex++;
+      pendingLog = null;
+      pendingChunks = [];
+      start = end;
+      end = findLineEnd(log.data, start);
+    }
+    if (start < log.data.length) {
+      pendingLog = pendingLog || log;
+      pendingChunks.push(log.data.subarray(start));
+    }
+  };
+
+  const rowCount = () => lines.length + (pendingLog ? 1 : 0);
+
+  const getRow = (index: number): DisplayLine => {
+    if (index < lines.length) return lines[index];
+    return pendingLine || (pendingLine = makeLine(pendingLog!, concatBytes(pendingChunks), false));
+  };
+
+  // 下一条日志开始所在的行
+  const currentRow = () => lines.length;
+
+  return { push, rowCount, getRow, currentRow };
+};
+
+export const splitLogLines = (logs: LogEntry[], ending: LineEnding, encoding: TextEncoding = TextEncoding.UTF8): DisplayLine[] => {
+  const splitter = createLineSplitter(ending, encoding);
+  logs.forEach(splitter.push);
+  return Array.from({ length: splitter.rowCount() }, (_, i) => splitter.getRow(i));
+};
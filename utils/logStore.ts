@@ -0,0 +1,147 @@
+import { LogEntry } from '../types';
+
+// 会话日志缓冲区：按字节预算淘汰最旧记录的环形缓冲区，
+// 终端显示、导出和复制都从这里读取。记录按追加顺序排列，时间戳不保证单调：
+// 分帧后的接收帧取首字节到达时间，可能早于组帧期间追加的发送和系统记录
+
+export interface LogStats {
+  bufferBytes: number; // 缓冲区内所有记录的占用字节数（淘汰依据）
+  rxBytes: number;
+  txBytes: number;
+}
+
+export interface LogQuery {
+  types?: LogEntry['type'][];
+  from?: number; // 时间范围（毫秒时间戳），包含两端
+  to?: number;
+}
+
+export interface LogStore {
+  append(log: LogEntry): void;
+  // 逐条替换所有记录（如按新编码重新解码）
+  update(fn: (log: LogEntry) => LogEntry): void;
+  clear(): void;
+  setMaxBytes(maxBytes: number): void;
+  size(): number;
+  // index 从当前最旧的记录开始计
+  get(index: number): LogEntry | undefined;
+  slice(from?: number, to?: number): LogEntry[];
+  query(query: LogQuery): LogEntry[];
+  stats(): LogStats;
+  // 创建或上次整体替换后已淘汰的记录数，get(i) 对应第 offset() + i 条追加的记录
+  offset(): number;
+  // 清空或整体替换时递增，此前缓存的 offset 失效
+  generation(): number;
+  // 每次修改递增，用于触发界面刷新
+  version(): number;
+}
+
+const INITIAL_CAPACITY = 64;
+
+export const createLogStore = (initialMaxBytes: number): LogStore => {
+  let maxBytes = initialMaxBytes;
+  // 容量始终为 2 的幂，位置用位与取模
+  let buffer: (LogEntry | undefined)[] = new Array(INITIAL_CAPACITY);
+  let head = 0;
+  let count = 0;
+  let evicted = 0;
+  let gen = 0;
+  let ver = 0;
+  let stats: LogStats = { bufferBytes: 0, rxBytes: 0, txBytes: 0 };
+
+  const at = (index: number) => buffer[(head + index) & (buffer.length - 1)];
+
+  // 系统和错误记录没有数据，按文本长度计入预算，否则无数据收发时只增不减
+  const weight = (log: LogEntry) => log.data.length > 0 ? log.data.length : log.text.length;
+
+  const account = (log: LogEntry, sign: 1 | -1) => {
+    stats.bufferBytes += sign * weight(log);
+    if (log.type === 'rx') stats.rxBytes += sign * log.byteCount;
+    else if (log.type === 'tx') stats.txBytes += sign * log.byteCount;
+  };
+
+  const grow = () => {
+    const next: (LogEntry | undefined)[] = new Array(buffer.length * 2);
+    for (let i = 0; i < count; i++) next[i] = at(i);
+    buffer = next;
+    head = 0;
+  };
+
+  // 淘汰最旧的记录直到字节数不超过预算，至少保留最新一条
+  const evict = () => {
+    while (stats.bufferBytes > maxBytes && count > 1) {
+      const index = head;
+      account(buffer[index]!, -1);
+      buffer[index] = undefined;
+      head = (head + 1) & (buffer.length - 1);
+      count--;
+      evicted++;
+    }
+  };
+
+  const reset = () => {
+    buffer = new Array(INITIAL_CAPACITY);
+    head = 0;
+    count = 0;
+    evicted = 0;
+    stats = { bufferBytes: 0, rxBytes: 0, txBytes: 0 };
+    gen++;
+  };
+
+  const slice = (from = 0, to = count) => {
+    const result: LogEntry[] = [];
+    for (let i = Math.max(0, from); i < Math.min(to, count); i++) result.push(at(i)!);
+    return result;
+  };
+
+  return {
+    append(log) {
+      if (count === buffer.length) grow();
+      buffer[(head + count) & (buffer.length - 1)] = log;
+      count++;
+      account(log, 1);
+      evict();
+      ver++;
+    },
+    update(fn) {
+      const logs = slice().map(fn);
+      reset();
+      logs.forEach(log => {
+        if (count === buffer.length) grow();
+        buffer[count++] = log;
+        account(log, 1);
+      });
+      evict();
+      ver++;
+    },
+    clear() {
+      reset();
+      ver++;
+    },
+    setMaxBytes(value) {
+      maxBytes = value;
+      const before = count;
+      evict();
+      if (count !== before) ver++;
+    },
+    size: () => count,
+    get: (index) => index >= 0 && index < count ? at(index) : undefined,
+    slice,
+    // 时间戳不保证单调，逐条检查时间范围
+    query({ types, from, to }) {
+      const result: LogEntry[] = [];
+      for (let i = 0; i < count; i++) {
+        const log = at(i)!;
+        const time = log.timestamp.getTime();
+        if (types && !types.includes(log.type)) continue;
+        if ((from !== undefined && time < from) || (to !== undefined && time > to)) continue;
+        result.push(log);
+      }
+      return result;
+    },
+    stats: () => ({ ...stats }),
+    offset: () => evicted,
+    generation: () => gen,
+    version: () => ver
+  };
+};
@@ -0,0 +1,73 @@
+import { SerialOutputSignals } from '../types';
+
+// 脚本在 Worker 中运行，发送数据和设置控制信号由会话完成
+export interface ScriptHost {
+  send(data: string | Uint8Array): void | Promise<void>;
+  setSignals(signals: SerialOutputSignals): Promise<void>;
+  log(text: string): void;
+}
+
+export interface ScriptRunner {
+  // 转发接收到的文本，供 expect 匹配
+  receive(text: string): void;
+  // 立即终止脚本，不触发 onExit
+  stop(): void;
+}
+
+// 运行脚本，结束时 onExit 收到错误信息，正常结束时为 null
+export const runScript = (code: string, host: ScriptHost, onExit: (error: string | null) => void): ScriptRunner => {
+  const worker = new Worker(new URL('./scriptWorker.ts', import.meta.url), { type: 'module' });
+  let finished = false;
+
+  const finish = (error: string | null) => {
+    if (finished) return;
+    finished = true;
+    worker.terminate();
+    onExit(error);
+  };
+
+  const handleCall = async (id: number, method: string, args: any) => {
+    let error: string | null = null;
+    try {
+      if (method === 'send') await host.send(args);
+      else if (method === 'setSignals') await host.setSignals(args);
+      else throw new Error(`未知调用 ${method}`);
+    } catch (err: any) {
+      error = err.message || String(err);
+    }
+    if (!finished) worker.postMessage({ type: 'result', id, error });
+  };
+
+  worker.onmessage = (event: MessageEvent) => {
+    const message = event.data;
+    if (finished) return;
+    switch (message.type) {
+      case 'call':
+        handleCall(message.id, message.method, message.args);
+        break;
+      case 'log':
+        host.log(String(message.text));
+        break;
+      case 'exit':
+        finish(message.error);
+        break;
+    }
+  };
+
+  worker.onerror = (event: ErrorEvent) => {
+    event.preventDefault();
+    finish(event.message || '脚本运行出错');
+  };
+
+  worker.postMessage({ type: 'run', code });
+
+  return {
+    receive(text: string) {
+      if (!finished && text) worker.postMessage({ type: 'rx', text });
+    },
+    stop() {
+      finished = true;
+      worker.terminate();
+    }
+  };
+};
@@ -0,0 +1,140 @@
+// 脚本运行环境：在独立的 Web Worker 中执行用户脚本，无法访问页面 DOM 和 localStorage，
+// 通过 send / expect / sleep / log / setSignals 与会话交互。fetch、WebSocket 等接口已从
+// 全局对象及其原型链上移除，但动态 import() 无法在脚本内屏蔽，因此这不是安全边界，
+// 只应运行可信的脚本
+
+interface WorkerScope {
+  postMessage(message: unknown): void;
+  onmessage: ((event: MessageEvent) => void) | null;
+  addEventListener(type: 'unhandledrejection', listener: (event: PromiseRejectionEvent) => void): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+// 接收缓存上限，超出时丢弃最早的数据
+const MAX_RX_BUFFER = 64 * 1024;
+const DEFAULT_EXPECT_TIMEOUT_MS = 5000;
+
+let rxBuffer = '';
+let waiter: { regex: RegExp, resolve: (match: RegExpExecArray) => void, timer: ReturnType<typeof setTimeout> } | null = null;
+let nextCallId = 0;
+const pendingCalls = new Map<number, { resolve: () => void, reject: (err: Error) => void }>();
+
+const callHost = (method: string, args: unknown) => new Promise<void>((resolve, reject) => {
+  const id = nextCallId++;
+  pendingCalls.set(id, { resolve, reject });
+  scope.postMessage({ type: 'call', id, method, args });
+});
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 匹配成功后丢弃匹配结尾之前的数据，下次 expect 只匹配之后收到的内容
+const tryMatch = () => {
+  if (!waiter) return;
+  const match = waiter.regex.exec(rxBuffer);
+  if (!match) return;
+  rxBuffer = rxBuffer.slice(match.index + match[0].length);
+  const { resolve, timer } = waiter;
+  waiter = null;
+  clearTimeout(timer);
+  resolve(match);
+};
+
+const formatValue = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (value instanceof Uint8Array) return Array.from(value).map(b => b.toString(16).padStart(2, '0').toUpperCase()).join(' ');
+  if (value instanceof Error) return value.message;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+const api = {
+  send: (data: string | Uint8Array | number[]) => {
+    if (typeof data !== 'string' && !(data instanceof Uint8Array) && !Array.isArray(data)) {
+      return Promise.reject(new Error('send 只接受字符串、Uint8Array 或字节数组'));
+    }
+    return callHost('send', Array.isArray(data) ? new Uint8Array(data) : data);
+  },
+
+  expect: (pattern: string | RegExp, timeoutMs = DEFAULT_EXPECT_TIMEOUT_MS) => new Promise<RegExpExecArray>((resolve, reject) => {
+    if (waiter) {
+      reject(new Error('上一个 expect 尚未完成'));
+      return;
+    }
+    // 去掉 g/y 标志，每次都从缓存开头匹配
+    const regex = pattern instanceof RegExp
+      ? new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''))
+      : new RegExp(escapeRegExp(String(pattern)));
+    const timer = setTimeout(() => {
+      waiter = null;
+      reject(new Error(`等待 ${regex} 超时 (${timeoutMs} ms)`));
+    }, timeoutMs);
+    waiter = { regex, resolve, timer };
+    tryMatch();
+  }),
+
+  sleep: (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)),
+
+  log: (...args: unknown[]) => {
+    scope.postMessage({ type: 'log', text: args.map(formatValue).join(' ') });
+  },
+
+  setSignals: (signals: { dataTerminalReady?: boolean, requestToSend?: boolean, break?: boolean }) => callHost('setSignals', signals)
+};
+
+const fail = (err: unknown) => {
+  scope.postMessage({ type: 'exit', error: formatValue(err) || '未知错误' });
+};
+
+// 移除网络、存储和脚本加载接口。接口可能定义在原型（如 WorkerGlobalScope.prototype）上，
+// 需要在原型链的每一层覆盖，否则可通过 Object.getPrototypeOf(self) 取回
+const blockedGlobals = ['fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'Worker', 'SharedWorker'];
+for (let target: object | null = self; target; target = Object.getPrototypeOf(target)) {
+  const owner = target;
+  blockedGlobals.forEach(name => {
+    if (owner !== self && !Object.prototype.hasOwnProperty.call(owner, name)) return;
+    try {
+      Object.defineProperty(owner, name, { value: undefined, configurable: false, writable: false });
+    } catch {
+      // 个别环境中属性不可重定义，忽略
+    }
+  });
+}
+
+scope.addEventListener('unhandledrejection', event => {
+  event.preventDefault();
+  fail(event.reason);
+});
+
+scope.onmessage = (event: MessageEvent) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'run': {
+      const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor;
+      try {
+        const names = Object.keys(api);
+        const script = new AsyncFunction(...names, `'use strict';\n${message.code}`);
+        script(...names.map(name => api[name as keyof typeof api]))
+          .then(() => scope.postMessage({ type: 'exit', error: null }), fail);
+      } catch (err) {
+        fail(err);
+      }
+      break;
+    }
+    case 'rx':
+      rxBuffer = (rxBuffer + message.text).slice(-MAX_RX_BUFFER);
+      tryMatch();
+      break;
+    case 'result': {
+      const call = pendingCalls.get(message.id);
+      if (!call) break;
+      pendingCalls.delete(message.id);
+      if (message.error) call.reject(new Error(message.error));
+      else call.resolve();
+      break;
+    }
+  }
+};
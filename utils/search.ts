@@ -0,0 +1,120 @@
+import { SearchMode, SearchQuery, TextEncoding } from '../types';
+import { hexToUint8Array, stringToUint8Array, uint8ArrayToHex, uint8ArrayToString } from './converters';
+
+// 终端搜索：把显示的各行按原有顺序拼接后整体匹配，
+// 因此匹配可以跨越数据包（以及原始流中自动折行的行）边界
+
+export interface SearchMatch {
+  startRow: number; // 行号为参与搜索的行列表中的位置
+  startOffset: number;
+  endRow: number;
+  endOffset: number; // 不含
+}
+
+// 行内需要高亮的范围
+export interface MatchRange {
+  start: number;
+  end: number;
+  index: number; // 所属匹配的序号
+}
+
+// 匹配过多时停止搜索，避免卡顿
+export const MAX_MATCHES = 10000;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 十六进制显示下字节之间可能有多个空格（数据包之间），匹配时统一处理
+const hexPattern = (bytes: Uint8Array) => uint8ArrayToHex(bytes).split(' ').join(' +');
+
+// 把搜索条件转换为作用于显示文本的正则表达式。hexView 表示当前按十六进制显示：
+// 文本条件按当前编码转换为字节再匹配十六进制文本，十六进制条件在文本显示下按编码解码后匹配。
+// 条件为空时返回 null，条件无效时抛出错误
+export const compileSearch = (query: SearchQuery, hexView: boolean, encoding: TextEncoding): RegExp | null => {
+  if (!query.pattern) return null;
+  const flags = query.caseSensitive ? 'g' : 'gi';
+  switch (query.mode) {
+    case SearchMode.Regex:
+      try {
+        return new RegExp(query.pattern, flags);
+      } catch (err: any) {
+        throw new Error(`正则表达式无效: ${err.message}`);
+      }
+    case SearchMode.Hex: {
+      const bytes = hexToUint8Array(query.pattern);
+      if (bytes.length === 0) return null;
+      return hexView ? new RegExp(hexPattern(bytes), 'gi') : new RegExp(escapeRegExp(uint8ArrayToString(bytes, encoding)), flags);
+    }
+    default:
+      return hexView
+        ? new RegExp(hexPattern(stringToUint8Array(query.pattern, encoding)), 'gi')
+        : new RegExp(escapeRegExp(query.pattern), flags);
+  }
+};
+
+// texts 为各行文本，joiners[i] 为第 i 行与前一行之间的连接文本（连续数据为空，换行为 '\n'）
+export const findMatches = (regex: RegExp, texts: string[], joiners: string[]): SearchMatch[] => {
+  const starts: number[] = [];
+  let document = '';
+  texts.forEach((text, i) => {
+    if (i > 0) document += joiners[i];
+    starts.push(document.length);
+    document += text;
+  });
+
+  // 位置落在行间连接文本中时归到相邻行
+  const rowAt = (position: number, exclusive: boolean) => {
+    let low = 0;
+    let high = starts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (exclusive ? starts[mid] < position : starts[mid] <= position) low = mid;
+      else high = mid - 1;
+    }
+    return { row: low, offset: Math.min(Math.max(0, position - starts[low]), texts[low].length) };
+  };
+
+  const matches: SearchMatch[] = [];
+  if (texts.length === 0) return matches;
+  regex.lastIndex = 0;
+  let found: RegExpExecArray | null;
+  while (matches.length < MAX_MATCHES && (found = regex.exec(document))) {
+    if (found[0].length === 0) {
+      regex.lastIndex++;
+      continue;
+    }
+    const start = rowAt(found.index, false);
+    const end = rowAt(found.index + found[0].length, true);
+    matches.push({ startRow: start.row, startOffset: start.offset, endRow: end.row, endOffset: end.offset });
+  }
+  return matches;
+};
+
+// 某一行中各匹配覆盖的范围，matches 按位置排序
+export const rowRanges = (matches: SearchMatch[], row: number, rowLength: number): MatchRange[] => {
+  // 二分查找第一个结束行不早于该行的匹配
+  let low = 0;
+  let high = matches.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (matches[mid].endRow < row) low = mid + 1;
+    else high = mid;
+  }
+  const ranges: MatchRange[] = [];
+  for (let i = low; i < matches.length && matches[i].startRow <= row; i++) {
+    const match = matches[i];
+    const start = match.startRow === row ? match.startOffset : 0;
+    const end = match.endRow === row ? match.endOffset : rowLength;
+    if (end > start) ranges.push({ start, end, index: i });
+  }
+  return ranges;
+};
+
+// 行过滤表达式按正则表达式（不区分大小写）处理，无效时抛出错误
+export const compileFilter = (expression: string): RegExp | null => {
+  if (!expression) return null;
+  try {
+    return new RegExp(expression, 'i');
+  } catch (err: any) {
+    throw new Error(`过滤表达式无效: ${err.message}`);
+  }
+};
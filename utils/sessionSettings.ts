@@ -0,0 +1,27 @@
+// 会话设置持久化：每个会话的设置保存在以会话 id 为前缀的键下，互不覆盖；
+// 同时写入不带前缀的键，作为新建会话的默认值（即最近一次修改的设置）
+
+export interface SessionSettings {
+  load(key: string): string | null;
+  save(key: string, value: string): void;
+}
+
+const prefix = (sessionId: string) => `session:${sessionId}:`;
+
+export const createSessionSettings = (sessionId: string): SessionSettings => ({
+  load: (key) => localStorage.getItem(prefix(sessionId) + key) ?? localStorage.getItem(key),
+  save: (key, value) => {
+    localStorage.setItem(prefix(sessionId) + key, value);
+    localStorage.setItem(key, value);
+  }
+});
+
+// 关闭会话时删除其设置，默认值保留
+export const removeSessionSettings = (sessionId: string) => {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(prefix(sessionId))) keys.push(key);
+  }
+  keys.forEach(key => localStorage.removeItem(key));
+};
@@ -0,0 +1,278 @@
+import { AssertOperator, DisplayMode, TestCase, TestStep, TestStepType, TextEncoding } from '../types';
+import { hexToUint8Array, parseEscapes } from './converters';
+
+// 测试序列：依次执行各用例的步骤，步骤失败后跳过该用例的剩余步骤，继续下一个用例
+
+export type TestStatus = 'pending' | 'running' | 'passed' | 'failed' | 'skipped';
+
+export interface StepResult {
+  description: string;
+  status: TestStatus;
+  durationMs: number;
+  message: string;
+  captures: Record<string, string>; // 等待步骤捕获的值
+}
+
+export interface CaseResult {
+  id: string;
+  name: string;
+  status: TestStatus;
+  durationMs: number;
+  steps: StepResult[];
+}
+
+export interface TestReport {
+  startedAt: string;
+  durationMs: number;
+  finished: boolean;
+  cancelled: boolean;
+  cases: CaseResult[];
+}
+
+export interface TestRun {
+  // 转发接收到的文本，供等待步骤匹配
+  receive(text: string): void;
+  // 取消运行，当前步骤失败，其余步骤跳过
+  cancel(): void;
+}
+
+// 接收缓存上限，超出时丢弃最早的数据
+const MAX_RX_BUFFER = 64 * 1024;
+const MAX_MESSAGE_LENGTH = 200;
+
+// 转义控制字符，便于在结果中查看
+const visible = (text: string) => {
+  const escaped = JSON.stringify(text).slice(1, -1);
+  return escaped.length > MAX_MESSAGE_LENGTH ? `${escaped.slice(0, MAX_MESSAGE_LENGTH)}…` : escaped;
+};
+
+export const describeStep = (step: TestStep): string => {
+  switch (step.type) {
+    case TestStepType.Send:
+      return `发送${step.mode === DisplayMode.Hex ? ' HEX' : ''} ${step.content}`;
+    case TestStepType.Expect:
+      return `等待 /${step.pattern}/ (${step.timeoutMs} ms)`;
+    case TestStepType.Assert:
+      return `断言 ${step.variable} ${step.operator} ${step.expected}`;
+    case TestStepType.Delay:
+      return `延时 ${step.timeoutMs} ms`;
+    default:
+      return step.type;
+  }
+};
+
+const toNumber = (text: string) => {
+  const value = text.trim() === '' ? NaN : Number(text.trim());
+  if (isNaN(value)) throw new Error(`${text} 不是数值`);
+  return value;
+};
+
+const compare = (actual: string, operator: AssertOperator, expected: string): boolean => {
+  switch (operator) {
+    case AssertOperator.Equal: return actual === expected;
+    case AssertOperator.NotEqual: return actual !== expected;
+    case AssertOperator.Match: return new RegExp(expected).test(actual);
+    case AssertOperator.Greater: return toNumber(actual) > toNumber(expected);
+    case AssertOperator.GreaterOrEqual: return toNumber(actual) >= toNumber(expected);
+    case AssertOperator.Less: return toNumber(actual) < toNumber(expected);
+    case AssertOperator.LessOrEqual: return toNumber(actual) <= toNumber(expected);
+    default: throw new Error(`未知运算符 ${operator}`);
+  }
+};
+
+// 运行测试，每次状态变化时 onUpdate 收到报告的副本
+export const runTests = (
+  cases: TestCase[],
+  host: { send(data: Uint8Array): void },
+  encoding: TextEncoding,
+  onUpdate: (report: TestReport) => void
+): TestRun => {
+  let rxBuffer = '';
+  let cancelled = false;
+  // 当前等待中的步骤，regex 为 null 时是延时
+  let waiter: { regex: RegExp | null, resolve: (match: RegExpExecArray | null) => void, reject: (err: Error) => void, timer: ReturnType<typeof setTimeout> } | null = null;
+
+  const startTime = Date.now();
+  const report: TestReport = {
+    startedAt: new Date(startTime).toISOString(),
+    durationMs: 0,
+    finished: false,
+    cancelled: false,
+    cases: cases.map(testCase => ({
+      id: testCase.id,
+      name: testCase.name,
+      status: 'pending',
+      durationMs: 0,
+      steps: testCase.steps.map(step => ({ description: describeStep(step), status: 'pending', durationMs: 0, message: '', captures: {} }))
+    }))
+  };
+
+  const publish = () => {
+    report.durationMs = Date.now() - startTime;
+    onUpdate(structuredClone(report));
+  };
+
+  // 匹配成功后丢弃匹配结尾之前的数据
+  const tryMatch = () => {
+    if (!waiter || !waiter.regex) return;
+    const match = waiter.regex.exec(rxBuffer);
+    if (!match) return;
+    rxBuffer = rxBuffer.slice(match.index + match[0].length);
+    const { resolve, timer } = waiter;
+    waiter = null;
+    clearTimeout(timer);
+    resolve(match);
+  };
+
+  const wait = (regex: RegExp | null, timeoutMs: number) => new Promise<RegExpExecArray | null>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      waiter = null;
+      if (regex) reject(new Error(`等待超时 (${timeoutMs} ms)`));
+      else resolve(null);
+    }, timeoutMs);
+    waiter = { regex, resolve, reject, timer };
+    tryMatch();
+  });
+
+  // 执行一个步骤，返回结果说明；失败时抛出错误
+  const runStep = async (step: TestStep, captures: Record<string, string>, result: StepResult): Promise<string> => {
+    switch (step.type) {
+      case TestStepType.Send: {
+        const data = step.mode === DisplayMode.Hex ? hexToUint8Array(step.content) : parseEscapes(step.content, encoding);
+        host.send(data);
+        return `${data.length} 字节`;
+      }
+      case TestStepType.Expect: {
+        const match = (await wait(new RegExp(step.pattern), Math.max(0, step.timeoutMs)))!;
+        match.forEach((value, index) => {
+          if (value !== undefined) result.captures[String(index)] = value;
+        });
+        Object.entries(match.groups || {}).forEach(([name, value]) => {
+          if (value !== undefined) result.captures[name] = value;
+        });
+        Object.assign(captures, result.captures);
+        return `收到 ${visible(match[0])}`;
+      }
+      case TestStepType.Assert: {
+        if (!(step.variable in captures)) throw new Error(`没有捕获值 ${step.variable}`);
+        const actual = captures[step.variable];
+        if (!compare(actual, step.operator, step.expected)) throw new Error(`实际值 ${visible(actual)}`);
+        return `实际值 ${visible(actual)}`;
+      }
+      case TestStepType.Delay:
+        await wait(null, Math.max(0, step.timeoutMs));
+        return '';
+      default:
+        throw new Error(`未知步骤类型 ${step.type}`);
+    }
+  };
+
+  const run = async () => {
+    for (let i = 0; i < cases.length; i++) {
+      const result = report.cases[i];
+      if (cancelled) {
+        result.status = 'skipped';
+        result.steps.forEach(step => step.status = 'skipped');
+        continue;
+      }
+      // 每个用例只匹配开始之后收到的数据
+      rxBuffer = '';
+      const captures: Record<string, string> = {};
+      const caseStart = Date.now();
+      let failed = false;
+      result.status = 'running';
+      publish();
+
+      for (let j = 0; j < cases[i].steps.length; j++) {
+        const stepResult = result.steps[j];
+        if (failed || cancelled) {
+          stepResult.status = 'skipped';
+          continue;
+        }
+        stepResult.status = 'running';
+        publish();
+        const stepStart = Date.now();
+        try {
+          stepResult.message = await runStep(cases[i].steps[j], captures, stepResult);
+          stepResult.status = 'passed';
+        } catch (err: any) {
+          stepResult.message = err.message;
+          stepResult.status = 'failed';
+          failed = true;
+        }
+        stepResult.durationMs = Date.now() - stepStart;
+        publish();
+      }
+
+      result.status = failed ? 'failed' : 'passed';
+      result.durationMs = Date.now() - caseStart;
+    }
+    report.finished = true;
+    report.cancelled = cancelled;
+    publish();
+  };
+
+  run();
+
+  return {
+    receive(text: string) {
+      if (report.finished || !text) return;
+      rxBuffer = (rxBuffer + text).slice(-MAX_RX_BUFFER);
+      tryMatch();
+    },
+    cancel() {
+      if (report.finished || cancelled) return;
+      cancelled = true;
+      if (waiter) {
+        const { reject, timer } = waiter;
+        waiter = null;
+        clearTimeout(timer);
+        reject(new Error('已取消'));
+      }
+    }
+  };
+};
+
+export const countResults = (report: TestReport) => ({
+  total: report.cases.length,
+  passed: report.cases.filter(c => c.status === 'passed').length,
+  failed: report.cases.filter(c => c.status === 'failed').length,
+  skipped: report.cases.filter(c => c.status === 'skipped').length
+});
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
+
+const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+// 每个用例对应一个 testcase，步骤明细写入 system-out
+export const reportToJUnit = (report: TestReport, suiteName: string): string => {
+  const counts = countResults(report);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(suiteName)}" tests="${counts.total}" failures="${counts.failed}" skipped="${counts.skipped}" time="${seconds(report.durationMs)}">`,
+    `  <testsuite name="${escapeXml(suiteName)}" tests="${counts.total}" failures="${counts.failed}" skipped="${counts.skipped}" time="${seconds(report.durationMs)}" timestamp="${report.startedAt}">`
+  ];
+  report.cases.forEach(result => {
+    lines.push(`    <testcase name="${escapeXml(result.name)}" classname="${escapeXml(suiteName)}" time="${seconds(result.durationMs)}">`);
+    const failedIndex = result.steps.findIndex(step => step.status === 'failed');
+    if (failedIndex !== -1) {
+      const step = result.steps[failedIndex];
+      lines.push(`      <failure message="${escapeXml(`步骤 ${failedIndex + 1} ${step.description}: ${step.message}`)}"/>`);
+    } else if (result.status === 'skipped') {
+      lines.push('      <skipped/>');
+    }
+    const details = result.steps.map((step, index) => {
+      const captures = Object.entries(step.captures).map(([name, value]) => `${name}=${visible(value)}`).join(' ');
+      return `${index + 1}. [${step.status}] ${step.description} (${step.durationMs} ms)${step.message ? ` ${step.message}` : ''}${captures ? ` {${captures}}` : ''}`;
+    });
+    if (details.length > 0) lines.push(`      <system-out>${escapeXml(details.join('\n'))}</system-out>`);
+    lines.push('    </testcase>');
+  });
+  lines.push('  </testsuite>', '</testsuites>');
+  return lines.join('\n');
+};
@@ -0,0 +1,108 @@
+import { SearchMode, TriggerRule } from '../types';
+import { hexToUint8Array, indexOfBytes } from './converters';
+
+// 自动应答触发器：每条规则单独缓存尚未匹配的接收数据，匹配跨越数据包边界；
+// 已匹配的内容不再参与该规则的后续匹配
+
+export interface TriggerFire {
+  rule: TriggerRule;
+  reply: string; // 已替换捕获组引用
+}
+
+// 每条规则缓存的上限，避免长时间运行后无限增长
+const MAX_MATCH_BUFFER = 4096;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 规则条件的错误信息，有效时返回 null
+export const triggerError = (rule: TriggerRule): string | null => {
+  try {
+    if (rule.matchMode === SearchMode.Hex) hexToUint8Array(rule.pattern);
+    else if (rule.matchMode === SearchMode.Regex) new RegExp(rule.pattern);
+    return null;
+  } catch (err: any) {
+    return err.message;
+  }
+};
+
+interface RuleState {
+  key: string; // 条件变化后重新编译并清空缓存
+  regex: RegExp | null;
+  bytes: Uint8Array | null;
+  text: string;
+  data: Uint8Array;
+}
+
+export const createTriggerMatcher = () => {
+  const states = new Map<string, RuleState>();
+  const counts = new Map<string, number>();
+
+  const stateOf = (rule: TriggerRule): RuleState | null => {
+    const key = `${rule.matchMode}:${rule.pattern}`;
+    let state = states.get(rule.id);
+    if (!state || state.key !== key) {
+      state = { key, regex: null, bytes: null, text: '', data: new Uint8Array(0) };
+      try {
+        if (rule.matchMode === SearchMode.Hex) state.bytes = hexToUint8Array(rule.pattern);
+        else state.regex = new RegExp(rule.matchMode === SearchMode.Regex ? rule.pattern : escapeRegExp(rule.pattern));
+      } catch {
+        // 无效条件不触发，错误在编辑器中提示
+      }
+      states.set(rule.id, state);
+    }
+    return state.regex || (state.bytes && state.bytes.length > 0) ? state : null;
+  };
+
+  // data 为接收的原始字节，text 为按当前编码解码后的文本；返回本次触发的规则
+  const feed = (rules: TriggerRule[], data: Uint8Array, text: string): TriggerFire[] => {
+    const fires: TriggerFire[] = [];
+    rules.forEach(rule => {
+      if (!rule.enabled || !rule.pattern) return;
+      const state = stateOf(rule);
+      if (!state) return;
+      const limitReached = () => rule.maxCount > 0 && (counts.get(rule.id) || 0) >= rule.maxCount;
+      const fire = (reply: string) => {
+        counts.set(rule.id, (counts.get(rule.id) || 0) + 1);
+        fires.push({ rule, reply });
+      };
+
+      if (state.bytes) {
+        const next = new Uint8Array(state.data.length + data.length);
+        next.set(state.data);
+        next.set(data, state.data.length);
+        let buffer = next;
+        let index: number;
+        while (!limitReached() && (index = indexOfBytes(buffer, state.bytes)) !== -1) {
+          fire(rule.reply);
+          buffer = buffer.slice(index + state.bytes.length);
+        }
+        state.data = buffer.slice(-MAX_MATCH_BUFFER);
+      } else if (state.regex) {
+        let buffer = state.text + text;
+        let match: RegExpExecArray | null;
+        while (!limitReached() && (match = state.regex.exec(buffer)) && match[0].length > 0) {
+          const groups = match;
+          fire(rule.reply.replace(/\$(\d)/g, (_, n) => groups[Number(n)] ?? ''));
+          buffer = buffer.slice(match.index + match[0].length);
+        }
+        state.text = buffer.slice(-MAX_MATCH_BUFFER);
+      }
+    });
+    return fires;
+  };
+
+  const getCounts = (): Record<string, number> => Object.fromEntries(counts);
+
+  // 清零触发次数并丢弃缓存，不指定 id 时处理所有规则
+  const reset = (id?: string) => {
+    if (id) {
+      counts.delete(id);
+      states.delete(id);
+    } else {
+      counts.clear();
+      states.clear();
+    }
+  };
+
+  return { feed, getCounts, reset };
+};
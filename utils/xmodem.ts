@@ -0,0 +1,379 @@
+import { ByteQueue } from './byteQueue';
+
+// XModem/YModem 控制字符
+export const SOH = 0x01; // 128 字节数据块
+export const STX = 0x02; // 1024 字节数据块
+export const EOT = 0x04;
+export const ACK = 0x06;
+export const NAK = 0x15;
+export const CAN = 0x18;
+export const CRC_C = 0x43; // 'C'，接收端请求 CRC 模式
+export const SUB = 0x1a;   // 数据块填充字节
+
+// 协议读写接口：写入走当前连接，读取来自被截获的接收数据
+export interface ModemIO {
+  write(data: Uint8Array): Promise<void>;
+  queue: ByteQueue;
+}
+
+export interface ModemSendOptions {
+  onProgress: (p: number) => void;
+  onLog?: (text: string) => void;
+  signal?: AbortSignal;
+  maxRetries?: number;     // 每个数据块的最大重试次数
+  timeoutMs?: number;      // 等待应答的超时时间
+  startTimeoutMs?: number; // 等待接收端发起传输的超时时间
+}
+
+export interface ModemReceiveOptions {
+  onProgress: (received: number, total: number | null) => void;
+  onLog?: (text: string) => void;
+  signal?: AbortSignal;
+  maxRetries?: number;     // 连续错误的最大次数
+  timeoutMs?: number;      // 等待数据块的超时时间
+  startTimeoutMs?: number; // 等待发送端开始传输的超时时间
+}
+
+export type XModemVariant = 'checksum' | 'crc' | '1k';
+
+// 接收端收到的一帧
+export type ReceivedPacket =
+  | { kind: 'data'; seq: number; payload: Uint8Array }
+  | { kind: 'eot' };
+
+// 接收端发起请求的重发间隔
+export const REQUEST_INTERVAL_MS = 3000;
+
+// CRC-16/XMODEM（多项式 0x1021，初值 0）
+export const crc16 = (data: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data[i] << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+};
+
+// 原始 XModem 的 8 位累加和
+export const checksum8 = (data: Uint8Array): number => {
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    sum = (sum + data[i]) & 0xff;
+  }
+  return sum;
+};
+
+export const buildPacket = (seq: number, payload: Uint8Array, size: 128 | 1024, padByte: number, useCrc: boolean): Uint8Array => {
+  const packet = new Uint8Array(3 + size + (useCrc ? 2 : 1));
+  packet[0] = size === 1024 ? STX : SOH;
+  packet[1] = seq & 0xff;
+  packet[2] = ~seq & 0xff;
+  packet.fill(padByte, 3, 3 + size);
+  packet.set(payload.subarray(0, size), 3);
+  const body = packet.subarray(3, 3 + size);
+  if (useCrc) {
+    const crc = crc16(body);
+    packet[3 + size] = crc >> 8;
+    packet[4 + size] = crc & 0xff;
+  } else {
+    packet[3 + size] = checksum8(body);
+  }
+  return packet;
+};
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new Error('已取消');
+  }
+};
+
+// 读取一个有效应答字节（ACK/NAK/'C'），连续两个 CAN 表示对端取消
+export const readResponse = async (io: ModemIO, timeoutMs: number, signal?: AbortSignal): Promise<number | null> => {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    throwIfAborted(signal);
+    // 分段等待，便于及时响应取消
+    const byte = await io.queue.read(Math.min(200, deadline - Date.now()));
+    if (byte === null) continue;
+    if (byte === CAN) {
+      const next = await io.queue.read(1000);
+      if (next === CAN) {
+        throw new Error('接收端取消了传输');
+      }
+      continue;
+    }
+    if (byte === ACK || byte === NAK || byte === CRC_C) {
+      return byte;
+    }
+    // 其他字节（设备打印的提示信息等）直接忽略
+  }
+  return null;
+};
+
+// 通知对端终止传输
+export const sendCancel = async (io: ModemIO) => {
+  try {
+    await io.write(new Uint8Array([CAN, CAN, CAN, CAN, CAN]));
+  } catch (e) {}
+};
+
+// 发送端的公共步骤，XModem 与 YModem 共用
+export const createModemSender = (io: ModemIO, options: ModemSendOptions) => {
+  const { onLog, signal, maxRetries = 10, timeoutMs = 10000 } = options;
+
+  // 等待接收端的传输请求：'C' 表示 CRC 模式，NAK 表示累加和模式
+  const waitForRequest = async (timeout: number, accept: number[]): Promise<number> => {
+    const deadline = Date.now() + timeout;
+    while (Date.now() < deadline) {
+      const res = await readResponse(io, deadline - Date.now(), signal);
+      if (res !== null && accept.includes(res)) return res;
+    }
+    throw new Error('等待接收端就绪超时');
+  };
+
+  // 等待数据块的应答，NAK 或超时返回 false。传输开始后收到的 'C' 是接收端
+  // 在收到第一块之前重复发出的请求，忽略并继续等待，否则会把数据块多发一次
+  const waitForAck = async (): Promise<boolean> => {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      const res = await readResponse(io, deadline - Date.now(), signal);
+      if (res === ACK) return true;
+      if (res === NAK) return false;
+    }
+    return false;
+  };
+
+  const sendPacket = async (packet: Uint8Array, seq: number) => {
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      throwIfAborted(signal);
+      if (attempt > 0) {
+        onLog?.(`数据块 ${seq} 未确认，重发 (${attempt}/${maxRetries})`);
+      }
+      // 丢弃发送前残留的应答（如接收端重复发出的 'C'）
+      io.queue.clear();
+      await io.write(packet);
+      if (await waitForAck()) return;
+    }
+    throw new Error(`数据块 ${seq} 重试次数超限`);
+  };
+
+  // 按块发送数据，进度以已确认的数据块计算
+  const sendBlocks = async (data: Uint8Array, allow1k: boolean, useCrc: boolean, onProgress: (p: number) => void) => {
+    const blocks: { offset: number; size: 128 | 1024 }[] = [];
+    for (let offset = 0; offset < data.length;) {
+      // 剩余数据超过 128 字节时使用 1K 块
+      const size = allow1k && data.length - offset > 128 ? 1024 : 128;
+      blocks.push({ offset, size });
+      offset += size;
+    }
+    for (let i = 0; i < blocks.length; i++) {
+      const { offset, size } = blocks[i];
+      const seq = i + 1;
+      await sendPacket(buildPacket(seq, data.subarray(offset, offset + size), size, SUB, useCrc), seq);
+      onProgress(Math.round(((i + 1) / blocks.length) * 100));
+    }
+  };
+
+  const sendEot = async () => {
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      throwIfAborted(signal);
+      await io.write(new Uint8Array([EOT]));
+      const res = await readResponse(io, timeoutMs, signal);
+      // 部分接收端先 NAK 第一个 EOT，再 ACK 第二个
+      if (res === ACK) return;
+    }
+    throw new Error('结束握手 (EOT) 未确认');
+  };
+
+  return { waitForRequest, sendPacket, sendBlocks, sendEot };
+};
+
+export const xmodemSend = async (data: Uint8Array, io: ModemIO, variant: XModemVariant, options: ModemSendOptions) => {
+  const { onProgress, onLog, startTimeoutMs = 60000 } = options;
+  const sender = createModemSender(io, options);
+
+  try {
+    io.queue.clear();
+    onProgress(0);
+    onLog?.('等待接收端就绪...');
+    // 原始 XModem 只认 NAK，接收端多次发 'C' 无应答后会回退到 NAK
+    const request = await sender.waitForRequest(startTimeoutMs, variant === 'checksum' ? [NAK] : [CRC_C, NAK]);
+    const useCrc = request === CRC_C;
+    if (!useCrc && variant !== 'checksum') {
+      onLog?.('接收端不支持 CRC，回退到累加和校验 (128 字节块)');
+    }
+
+    // 1K 数据块必须配合 CRC 使用
+    await sender.sendBlocks(data, variant === '1k' && useCrc, useCrc, onProgress);
+    await sender.sendEot();
+    onProgress(100);
+  } catch (err) {
+    await sendCancel(io);
+    throw err;
+  }
+};
+
+// 接收端的公共步骤，XModem 与 YModem 共用
+export const createModemReceiver = (io: ModemIO, options: ModemReceiveOptions) => {
+  const { onLog, signal, maxRetries = 10, timeoutMs = 10000 } = options;
+
+  const reply = (byte: number) => io.write(new Uint8Array([byte]));
+
+  // 出错后等待线路空闲再请求重发，丢弃半截数据块
+  const purge = async () => {
+    while (await io.queue.read(100) !== null) {
+      throwIfAborted(signal);
+    }
+  };
+
+  // 等待帧起始字节，忽略其他杂散数据
+  const readHeader = async (timeout: number): Promise<number | null> => {
+    const deadline = Date.now() + timeout;
+    while (Date.now() < deadline) {
+      throwIfAborted(signal);
+      const byte = await io.queue.read(Math.min(200, deadline - Date.now()));
+      if (byte === null) continue;
+      if (byte === SOH || byte === STX || byte === EOT) return byte;
+      if (byte === CAN) {
+        const next = await io.queue.read(1000);
+        if (next === CAN) {
+          throw new Error('发送端取消了传输');
+        }
+      }
+    }
+    return null;
+  };
+
+  // 读取帧起始字节之后的序号、数据与校验，校验失败返回 null
+  const readBlock = async (header: number, useCrc: boolean): Promise<{ seq: number; payload: Uint8Array } | null> => {
+    const size = header === STX ? 1024 : 128;
+    const frame = new Uint8Array(2 + size + (useCrc ? 2 : 1));
+    for (let i = 0; i < frame.length; i++) {
+      const byte = await io.queue.read(1000);
+      if (byte === null) return null;
+      frame[i] = byte;
+    }
+    if ((frame[0] ^ frame[1]) !== 0xff) return null;
+    const payload = frame.slice(2, 2 + size);
+    const valid = useCrc
+      ? crc16(payload) === ((frame[2 + size] << 8) | frame[3 + size])
+      : checksum8(payload) === frame[2 + size];
+    return valid ? { seq: frame[0], payload } : null;
+  };
+
+  // 读取一帧，超时或校验失败返回 null
+  const readPacket = async (useCrc: boolean, timeout: number): Promise<ReceivedPacket | null> => {
+    const header = await readHeader(timeout);
+    if (header === EOT) return { kind: 'eot' };
+    if (header === null) return null;
+    const block = await readBlock(header, useCrc);
+    if (block) return { kind: 'data', ...block };
+    onLog?.('数据块校验失败，请求重发');
+    await purge();
+    return null;
+  };
+
+  // 接收下一帧，超时或校验失败时发送 request 请求重发
+  const receivePacket = async (useCrc: boolean, request: number, timeout: number, maxErrors: number): Promise<ReceivedPacket> => {
+    for (let errors = 0; errors <= maxErrors; errors++) {
+      const packet = await readPacket(useCrc, timeout);
+      if (packet) return packet;
+      await reply(request);
+    }
+    throw new Error('接收错误次数超限');
+  };
+
+  // 接收数据块直到 EOT，nakFirstEot 用于 YModem 的双 EOT 结束握手
+  const receiveBlocks = async (first: ReceivedPacket, useCrc: boolean, nakFirstEot: boolean, onData: (payload: Uint8Array) => void) => {
+    let expected = 1;
+    let eotCount = 0;
+    let packet = first;
+    while (true) {
+      if (packet.kind === 'eot') {
+        eotCount++;
+        if (nakFirstEot && eotCount === 1) {
+          await reply(NAK);
+        } else {
+          await reply(ACK);
+          return;
+        }
+      } else if (packet.seq === (expected & 0xff)) {
+        onData(packet.payload);
+        expected++;
+        await reply(ACK);
+      } else if (packet.seq === ((expected - 1) & 0xff)) {
+        // 发送端没收到上次的 ACK，重复块直接确认
+        await reply(ACK);
+      } else {
+        throw new Error(`数据块序号错误: 期望 ${expected & 0xff}，收到 ${packet.seq}`);
+      }
+      packet = await receivePacket(useCrc, NAK, timeoutMs, maxRetries);
+    }
+  };
+
+  return { reply, readPacket, receivePacket, receiveBlocks };
+};
+
+export const concatChunks = (chunks: Uint8Array[]): Uint8Array => {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+};
+
+// XModem 没有文件长度信息，去掉末尾的 SUB 填充
+const stripPadding = (data: Uint8Array): Uint8Array => {
+  let end = data.length;
+  while (end > 0 && data[end - 1] === SUB) end--;
+  return data.subarray(0, end);
+};
+
+// 请求 CRC 模式的次数，无应答时改发 NAK，兼容只支持累加和的发送端
+const CRC_REQUEST_ATTEMPTS = 3;
+
+export const xmodemReceive = async (io: ModemIO, variant: XModemVariant, options: ModemReceiveOptions): Promise<Uint8Array> => {
+  const { onProgress, onLog, startTimeoutMs = 60000 } = options;
+  const receiver = createModemReceiver(io, options);
+  // 1K 数据块由发送端决定，接收端只需请求 CRC 模式
+  let useCrc = variant !== 'checksum';
+
+  // 定时发出请求直到收到第一帧
+  const waitForFirstPacket = async (): Promise<ReceivedPacket> => {
+    const attempts = Math.ceil(startTimeoutMs / REQUEST_INTERVAL_MS);
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      if (useCrc && attempt === CRC_REQUEST_ATTEMPTS) {
+        useCrc = false;
+        onLog?.('发送端未响应 CRC 请求，回退到累加和校验');
+      }
+      await receiver.reply(useCrc ? CRC_C : NAK);
+      const packet = await receiver.readPacket(useCrc, REQUEST_INTERVAL_MS);
+      if (packet) return packet;
+    }
+    throw new Error('等待发送端开始传输超时');
+  };
+
+  try {
+    io.queue.clear();
+    onProgress(0, null);
+    onLog?.('等待发送端开始传输...');
+    const first = await waitForFirstPacket();
+
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    await receiver.receiveBlocks(first, useCrc, false, payload => {
+      chunks.push(payload);
+      received += payload.length;
+      onProgress(received, null);
+    });
+    return stripPadding(concatChunks(chunks));
+  } catch (err) {
+    await sendCancel(io);
+    throw err;
+  }
+};
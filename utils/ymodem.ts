@@ -0,0 +1,108 @@
+import {
+  ModemIO,
+  ModemSendOptions,
+  ModemReceiveOptions,
+  CRC_C,
+  ACK,
+  REQUEST_INTERVAL_MS,
+  buildPacket,
+  concatChunks,
+  createModemSender,
+  createModemReceiver,
+  sendCancel
+} from './xmodem';
+
+export interface ReceivedFile {
+  fileName: string;
+  data: Uint8Array;
+}
+
+// 第 0 块：文件名\0文件大小，空文件名表示批量传输结束
+const buildHeaderPacket = (fileName: string, fileSize: number | null): Uint8Array => {
+  if (fileSize === null) {
+    return buildPacket(0, new Uint8Array(0), 128, 0x00, true);
+  }
+  const info = new TextEncoder().encode(`${fileName}\0${fileSize}`);
+  return buildPacket(0, info, info.length + 1 > 128 ? 1024 : 128, 0x00, true);
+};
+
+export const ymodemSend = async (fileName: string, data: Uint8Array, io: ModemIO, options: ModemSendOptions) => {
+  const { onProgress, onLog, timeoutMs = 10000, startTimeoutMs = 60000 } = options;
+  const sender = createModemSender(io, options);
+
+  try {
+    io.queue.clear();
+    onProgress(0);
+    onLog?.('等待接收端就绪...');
+    await sender.waitForRequest(startTimeoutMs, [CRC_C]);
+
+    await sender.sendPacket(buildHeaderPacket(fileName, data.length), 0);
+    await sender.waitForRequest(timeoutMs, [CRC_C]);
+
+    await sender.sendBlocks(data, true, true, onProgress);
+
+    await sender.sendEot();
+    await sender.waitForRequest(timeoutMs, [CRC_C]);
+    await sender.sendPacket(buildHeaderPacket('', null), 0);
+    onProgress(100);
+  } catch (err) {
+    await sendCancel(io);
+    throw err;
+  }
+};
+
+// 解析第 0 块：文件名\0文件大小[ 修改时间 ...]，文件名为空表示批量传输结束
+const parseHeader = (payload: Uint8Array): { fileName: string; fileSize: number | null } => {
+  const nameEnd = payload.indexOf(0);
+  const fileName = new TextDecoder().decode(payload.subarray(0, nameEnd < 0 ? payload.length : nameEnd));
+  if (!fileName || nameEnd < 0) {
+    return { fileName, fileSize: null };
+  }
+  const infoEnd = payload.indexOf(0, nameEnd + 1);
+  const info = new TextDecoder().decode(payload.subarray(nameEnd + 1, infoEnd < 0 ? payload.length : infoEnd));
+  const fileSize = parseInt(info.trim().split(' ')[0], 10);
+  return { fileName, fileSize: Number.isNaN(fileSize) ? null : fileSize };
+};
+
+// 批量接收，返回本次传输的全部文件
+export const ymodemReceive = async (io: ModemIO, options: ModemReceiveOptions): Promise<ReceivedFile[]> => {
+  const { onProgress, onLog, maxRetries = 10, timeoutMs = 10000, startTimeoutMs = 60000 } = options;
+  const receiver = createModemReceiver(io, options);
+  const files: ReceivedFile[] = [];
+
+  try {
+    io.queue.clear();
+    onProgress(0, null);
+    onLog?.('等待发送端开始传输...');
+    while (true) {
+      await receiver.reply(CRC_C);
+      const header = await receiver.receivePacket(true, CRC_C, REQUEST_INTERVAL_MS, Math.ceil(startTimeoutMs / REQUEST_INTERVAL_MS));
+      if (header.kind !== 'data' || header.seq !== 0) {
+        throw new Error('未收到文件头');
+      }
+      const { fileName, fileSize } = parseHeader(header.payload);
+      await receiver.reply(ACK);
+      if (!fileName) break;
+
+      onLog?.(`正在接收文件: ${fileName}${fileSize !== null ? ` (${fileSize} 字节)` : ''}`);
+      await receiver.reply(CRC_C);
+      const first = await receiver.receivePacket(true, CRC_C, timeoutMs, maxRetries);
+
+      const chunks: Uint8Array[] = [];
+      let received = 0;
+      await receiver.receiveBlocks(first, true, true, payload => {
+        chunks.push(payload);
+        received += payload.length;
+        onProgress(fileSize !== null ? Math.min(received, fileSize) : received, fileSize);
+      });
+
+      // 按文件头中的大小去掉最后一块的填充
+      const data = concatChunks(chunks);
+      files.push({ fileName, data: fileSize !== null ? data.subarray(0, fileSize) : data });
+    }
+    return files;
+  } catch (err) {
+    await sendCancel(io);
+    throw err;
+  }
+};